@@ -1,16 +1,65 @@
 import * as vscode from 'vscode';
 import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
-import { AdoService } from './adoService';
+import { BacklogBackend, OutboxState } from './backend';
+import { RequestCancelledError } from './retry';
+import { BacklogTeam } from './teams';
+import { BacklogHierarchy, getEffortField, getLevelIndex, getOrderField, getTreeLevels } from './hierarchy';
+import { getReorderedRanks } from './backlogOrder';
+import { DEFAULT_LAYOUT, GROUP_MODES, TreeLayout, formatBreadcrumb, groupWorkItems, sortWorkItems } from './treeLayout';
+import { BacklogTree, matchesFilters } from './backlogTree';
+import { showAdoError, showError } from './notify';
+import { getWorkItemWebUrl } from './connection';
 
 const PAGE_SIZE = 50;
 
+/** Codicon and color for a work item, by its position in the hierarchy. */
+function getWorkItemIcon(hierarchy: BacklogHierarchy, levelIndex: number, workItemType: string): { icon: string; color: string } {
+    if (hierarchy.bugTypes.includes(workItemType)) {
+        return { icon: 'bug', color: 'charts.red' };
+    }
+    const levels = getTreeLevels(hierarchy);
+    const level = levels[levelIndex];
+    if (level?.kind === 'task') {
+        return { icon: 'tasklist', color: 'charts.yellow' };
+    }
+    if (!level || level.kind !== 'portfolio') {
+        return { icon: 'checklist', color: 'charts.blue' };
+    }
+    // Count portfolio levels up from the requirement level: Features, then Epics, then anything above
+    const lastPortfolio = levels.filter(l => l.kind === 'portfolio').length - 1;
+    switch (lastPortfolio - levelIndex) {
+        case 0: return { icon: 'package', color: 'charts.purple' };
+        case 1: return { icon: 'milestone', color: 'charts.orange' };
+        default: return { icon: 'rocket', color: 'charts.green' };
+    }
+}
+
+function formatHours(hours: number): string {
+    return `${Math.round(hours * 100) / 100}h`;
+}
+
 class BacklogItem extends vscode.TreeItem {
+    /** The node this one was loaded under. */
+    parent?: BacklogItem;
+    /** Key of the group a `group` node stands for. */
+    groupKey?: string;
+
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly type: 'team' | 'epic' | 'feature' | 'userstory' | 'bug' | 'loadMore',
+        public readonly type: 'team' | 'group' | 'unparented' | 'workItem' | 'loadMore',
         public readonly workItem?: WorkItem,
-        public readonly teamName?: string
+        public readonly teamName?: string,
+        public readonly team?: BacklogTeam,
+        /** Index of the work item's level in the backlog hierarchy. */
+        public readonly levelIndex?: number,
+        hierarchy?: BacklogHierarchy,
+        /** Remaining work summed over the tasks beneath this item. */
+        remainingWorkRollup?: number,
+        /** Edits made offline, to show whether this item has some waiting or rejected. */
+        outbox?: OutboxState,
+        /** Ancestors of a row in the list view, which shows no hierarchy. */
+        breadcrumb?: string
     ) {
         super(label, collapsibleState);
 
@@ -22,33 +71,79 @@ class BacklogItem extends vscode.TreeItem {
         }
 
         this.tooltip = workItem ? `ID: ${workItem.id} - ${workItem.fields!['System.State']}` : label;
+        if (type === 'team' && team) {
+            this.tooltip = `${team.name}\n${team.areas.map(a => a.includeChildren ? `${a.path} (including sub-areas)` : a.path).join('\n')}`;
+        }
 
         if (workItem) {
             const stateIndicatorList = vscode.workspace.getConfiguration('adoBacklog').get<{state: string, indicator: string}[]>('stateIndicators') || [];
             const state = workItem.fields!['System.State'] || '';
             const match = stateIndicatorList.find(s => s.state === state) || stateIndicatorList.find(s => s.state === '*');
             const indicator = match?.indicator || '';
-            this.description = indicator ? `${indicator} #${workItem.id}` : `#${workItem.id}`;
+            const parts = [indicator ? `${indicator} #${workItem.id}` : `#${workItem.id}`];
+
+            // Tasks show their own hours; items above them show the rolled-up remaining work
+            const level = hierarchy && levelIndex !== undefined ? getTreeLevels(hierarchy)[levelIndex] : undefined;
+            if (hierarchy && level?.kind === 'task') {
+                const activity = workItem.fields![hierarchy.fields.Activity];
+                const remaining = workItem.fields![hierarchy.fields.RemainingWork];
+                const completed = workItem.fields![hierarchy.fields.CompletedWork];
+                if (activity) parts.push(activity);
+                if (remaining !== undefined) parts.push(`${formatHours(remaining)} left`);
+                if (completed !== undefined) parts.push(`${formatHours(completed)} done`);
+            } else if (remainingWorkRollup) {
+                parts.push(`${formatHours(remainingWorkRollup)} remaining`);
+            }
+
+            const conflict = outbox?.conflicts.find(c => c.workItemId === workItem.id);
+            if (conflict) {
+                parts.push('edits rejected');
+                this.tooltip += `\nEdits made offline were rejected: ${conflict.message}`;
+            } else if (outbox?.pending.includes(workItem.id!)) {
+                parts.push('pending');
+                this.tooltip += '\nEdited offline; waiting to be sent to Azure DevOps';
+            }
+            if (breadcrumb) {
+                parts.push(breadcrumb);
+                this.tooltip += `\nIn ${breadcrumb}`;
+            }
+            this.description = parts.join(' · ');
         } else {
             this.description = '';
         }
 
         if (type === 'team') {
-            this.contextValue = 'areaPath';
+            this.contextValue = 'areaPath canAddChild';
+            this.iconPath = new vscode.ThemeIcon('organization', new vscode.ThemeColor('charts.red'));
 
             this.command = {
                 command: 'adoBacklog.showTeamInfo',
                 title: 'Show Team Information',
                 arguments: [this]
             };
-        } else if (type === 'epic') {
-            this.contextValue = 'epic workItem';
-        } else if (type === 'feature') {
-            this.contextValue = 'feature workItem';
-        } else if (type === 'userstory') {
-            this.contextValue = 'workItem';
-        } else if (type === 'bug') {
-            this.contextValue = 'bug workItem';
+        } else if (workItem && hierarchy && levelIndex !== undefined) {
+            // Context values drive the menus, e.g. "New Child Work Item" needs a level below
+            const workItemType = workItem.fields!['System.WorkItemType'];
+            const levels = getTreeLevels(hierarchy);
+            const level = levels[levelIndex];
+            const contextValues = ['workItem', level ? level.kind : 'other'];
+            if (hierarchy.bugTypes.includes(workItemType)) contextValues.push('bug');
+            // Tasks get their own "Create Task" command rather than the generic one
+            if (levels[levelIndex + 1]?.kind === 'task') {
+                contextValues.push('canAddTask');
+            } else if (levelIndex < levels.length - 1) {
+                contextValues.push('canAddChild');
+            }
+            const conflict = outbox?.conflicts.some(c => c.workItemId === workItem.id);
+            if (conflict || outbox?.pending.includes(workItem.id!)) contextValues.push('pendingEdits');
+            this.contextValue = contextValues.join(' ');
+
+            const { icon, color } = getWorkItemIcon(hierarchy, levelIndex, workItemType);
+            this.iconPath = conflict
+                ? new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.errorForeground'))
+                : new vscode.ThemeIcon(icon, new vscode.ThemeColor(color));
+        } else {
+            this.iconPath = new vscode.ThemeIcon('circle-outline', new vscode.ThemeColor('foreground'));
         }
 
         if (workItem) {
@@ -58,30 +153,6 @@ class BacklogItem extends vscode.TreeItem {
                 arguments: [this]
             };
         }
-
-        this.iconPath = new vscode.ThemeIcon(this.getIcon(), this.getIconColor());
-    }
-
-    private getIcon(): string {
-        switch (this.type) {
-            case 'team': return 'organization';
-            case 'epic': return 'milestone';
-            case 'feature': return 'package';
-            case 'userstory': return 'checklist';
-            case 'bug': return 'bug';
-            default: return 'circle-outline';
-        }
-    }
-
-    private getIconColor(): vscode.ThemeColor {
-        switch (this.type) {
-            case 'team': return new vscode.ThemeColor('charts.red');
-            case 'epic': return new vscode.ThemeColor('charts.orange');
-            case 'feature': return new vscode.ThemeColor('charts.purple');
-            case 'userstory': return new vscode.ThemeColor('charts.blue');
-            case 'bug': return new vscode.ThemeColor('charts.red');
-            default: return new vscode.ThemeColor('foreground');
-        }
     }
 }
 
@@ -97,9 +168,13 @@ export class AdoBacklogProvider implements vscode.TreeDataProvider<BacklogItem>,
     private tagsFilter: string[] = [];
     private assignedToFilter: string = '';
     private refreshTimeout?: NodeJS.Timeout;
+    private layout: TreeLayout = DEFAULT_LAYOUT;
     private loadedCounts: Map<string, number> = new Map();
+    private loading = new Map<string, vscode.CancellationTokenSource>();
+    // Latest node shown for each work item, by tree item ID
+    private nodes = new Map<string, BacklogItem>();
 
-    constructor(private adoService: AdoService) { }
+    constructor(private backend: BacklogBackend) { }
 
     setSearchText(text: string): void {
         this.searchText = text;
@@ -138,6 +213,15 @@ export class AdoBacklogProvider implements vscode.TreeDataProvider<BacklogItem>,
         return filters.length > 0 ? filters.join(' | ') : '';
     }
 
+    getLayout(): TreeLayout {
+        return this.layout;
+    }
+
+    setLayout(layout: TreeLayout): void {
+        this.layout = layout;
+        this.refreshImmediate();
+    }
+
     refresh(element?: BacklogItem): void {
         if (this.refreshTimeout) {
             clearTimeout(this.refreshTimeout);
@@ -152,6 +236,24 @@ export class AdoBacklogProvider implements vscode.TreeDataProvider<BacklogItem>,
         this._onDidChangeTreeData.fire(element);
     }
 
+    /**
+     * Reloads the nodes showing the given work items by refreshing the nodes they sit under,
+     * which rebuilds their labels and rollups. `undefined` reloads the whole tree.
+     */
+    refreshWorkItems(workItemIds: number[] | undefined): void {
+        if (!workItemIds) {
+            this.refreshImmediate();
+            return;
+        }
+        const parents = new Set<BacklogItem>();
+        for (const id of workItemIds) {
+            // An edit can move a top-level item to another group, so the team's groups are rebuilt
+            const parent = this.nodes.get(`wi_${id}`)?.parent;
+            if (parent) parents.add(parent.type === 'group' || parent.type === 'unparented' ? parent.parent! : parent);
+        }
+        parents.forEach(parent => this._onDidChangeTreeData.fire(parent));
+    }
+
     getTreeItem(element: BacklogItem): vscode.TreeItem {
         return element;
     }
@@ -166,93 +268,231 @@ export class AdoBacklogProvider implements vscode.TreeDataProvider<BacklogItem>,
     }
 
     async getChildren(element?: BacklogItem): Promise<BacklogItem[]> {
-        if (!this.adoService.isConfigured()) {
-            vscode.window.showWarningMessage('Please configure Azure DevOps settings in VS Code settings');
+        // An empty tree lets the view's welcome content explain what is missing
+        await this.backend.whenReady();
+        if (!this.backend.isConfigured()) {
             return [];
         }
 
+        // Collapsing the node cancels whatever is still loading for it
+        const loading = new vscode.CancellationTokenSource();
+        if (element?.id) {
+            this.loading.get(element.id)?.cancel();
+            this.loading.set(element.id, loading);
+        }
+        const token = loading.token;
+
         try {
+            const hierarchy = await this.backend.getHierarchy();
             if (!element) {
-                const areas = await this.adoService.getTeams();
-                return areas.map(area => new BacklogItem(
-                    area.name || 'Unknown Area',
+                this.nodes.clear();
+                const teams = await this.backend.getTeams();
+                return teams.map(team => new BacklogItem(
+                    team.name || 'Unknown Team',
                     vscode.TreeItemCollapsibleState.Collapsed,
                     'team',
                     undefined,
-                    area.fullPath || area.name
+                    team.key,
+                    team
                 ));
             } else if (element.type === 'loadMore') {
                 return [];
             } else if (element.type === 'team') {
-                const filters = this.getfiltersForService();
-                const epics = await this.adoService.getEpicsForTeam(element.teamName!, filters);
-                return this.paginateItems(epics, 'team_' + element.teamName, 'epic', element.teamName);
-            } else if (element.type === 'epic') {
-                const filters = this.getfiltersForService();
-                const features = await this.adoService.getChildWorkItems(element.workItem!.id!, filters);
-                const filtered = features.filter(f => f.fields!['System.WorkItemType'] === 'Feature');
-                return this.paginateItems(filtered, 'epic_' + element.workItem!.id, 'feature', element.teamName);
-            } else if (element.type === 'feature') {
-                // Return user stories and bugs for the feature - server-side filtered
-                const filters = this.getfiltersForService();
-                const children = await this.adoService.getChildWorkItems(element.workItem!.id!, filters);
-                const stories = children.filter(s => s.fields!['System.WorkItemType'] === 'User Story');
-                const bugs = children.filter(s => s.fields!['System.WorkItemType'] === 'Bug');
-                const storyItems = stories.map(item => new BacklogItem(
-                    item.fields!['System.Title'],
-                    vscode.TreeItemCollapsibleState.None,
-                    'userstory',
-                    item,
-                    element.teamName
-                ));
-                const bugItems = bugs.map(item => new BacklogItem(
-                    item.fields!['System.Title'],
-                    vscode.TreeItemCollapsibleState.None,
-                    'bug',
-                    item,
-                    element.teamName
-                ));
-
-                const allItems = [...storyItems, ...bugItems];
-                const parentKey = 'feature_' + element.workItem!.id;
-                const loadedCount = this.loadedCounts.get(parentKey) || PAGE_SIZE;
-                const itemsToShow = allItems.slice(0, loadedCount);
-                // Add "Load More" item if there are more items
-                if (allItems.length > loadedCount) {
-                    const loadMoreItem = new BacklogItem(
-                        `Load More... (${allItems.length - loadedCount} remaining)`,
-                        vscode.TreeItemCollapsibleState.None,
-                        'loadMore',
-                        undefined,
-                        element.teamName
-                    );
-                    loadMoreItem.command = {
-                        command: 'adoBacklog.loadMore',
-                        title: 'Load More',
-                        arguments: [parentKey]
-                    };
-                    loadMoreItem.iconPath = new vscode.ThemeIcon('arrow-down');
-                    itemsToShow.push(loadMoreItem);
+                const { items, breadcrumbs } = await this.getTeamItems(element.team!, hierarchy, token);
+                // Items the team's tree doesn't reach are listed after everything else
+                const unparented = await this.getUnparentedItems(element.team!, token);
+                const unparentedNodes = unparented.items.length > 0 ? [this.createUnparentedNode(element, unparented.items.length)] : [];
+                if (this.layout.groupBy !== 'none') {
+                    return [
+                        ...groupWorkItems(items, this.layout.groupBy).map(group => this.createGroupNode(element, group.key, group.label, group.description, group.items.length)),
+                        ...unparentedNodes
+                    ];
                 }
-                return itemsToShow;
+                const parentKey = `${this.layout.view === 'list' ? 'list' : 'team'}_${element.teamName}`;
+                return [
+                    ...await this.paginateItems(this.sortItems(items, hierarchy), parentKey, breadcrumbs ? undefined : 0, hierarchy, element, token, breadcrumbs),
+                    ...unparentedNodes
+                ];
+            } else if (element.type === 'unparented') {
+                if (!element.team) return [];
+                const { items, breadcrumbs } = await this.getUnparentedItems(element.team, token);
+                return await this.paginateItems(this.sortItems(items, hierarchy), element.id!, undefined, hierarchy, element, token, breadcrumbs);
+            } else if (element.type === 'group') {
+                // The team's items sharing the group's state, assignee, iteration or tag
+                if (!element.team) return [];
+                const { items, breadcrumbs } = await this.getTeamItems(element.team, hierarchy, token);
+                const group = groupWorkItems(items, this.layout.groupBy).find(g => g.key === element.groupKey);
+                return await this.paginateItems(this.sortItems(group?.items || [], hierarchy), element.id!, breadcrumbs ? undefined : 0, hierarchy, element, token, breadcrumbs);
+            } else if (element.type === 'workItem') {
+                // Children on the next level down, from the team's backlog tree
+                const levels = getTreeLevels(hierarchy);
+                const childIndex = element.levelIndex! + 1;
+                const childLevel = levels[childIndex];
+                if (!childLevel || !element.team) return [];
+                const filters = this.getfiltersForService();
+                // Beneath Unparented, items come from the team's unparented tree
+                const children = this.isUnparented(element)
+                    ? (await this.backend.getUnparentedTree(element.team, filters, token)).getChildren(element.workItem!.id!)
+                    : await this.backend.getChildWorkItems(element.team, levels[0].workItemTypes, element.workItem!.id!, filters, token);
+                // Stories and bugs stay mixed in backlog order, as on the Azure DevOps backlog
+                const filtered = this.sortItems(children.filter(item => childLevel.workItemTypes.includes(item.fields!['System.WorkItemType'])), hierarchy);
+                return await this.paginateItems(filtered, 'children_' + element.workItem!.id, childIndex, hierarchy, element, token);
             }
         } catch (error: any) {
-            vscode.window.showErrorMessage(`Error loading backlog: ${error.message}`);
+            if (error instanceof RequestCancelledError) {
+                return [];
+            }
+            showAdoError('Error loading backlog', error, { retry: () => this._onDidChangeTreeData.fire(element) });
             return [];
+        } finally {
+            if (element?.id && this.loading.get(element.id) === loading) {
+                this.loading.delete(element.id);
+            }
+            loading.dispose();
         }
         return [];
     }
 
-    private paginateItems(items: WorkItem[], parentKey: string, itemType: string, teamName?: string): BacklogItem[] {
+    /**
+     * What a team node holds: the top backlog level in its area scope, e.g. Epics, or in the list
+     * view every item of its backlog that matches the filters, with each row's ancestors as a breadcrumb.
+     */
+    private async getTeamItems(
+        team: BacklogTeam,
+        hierarchy: BacklogHierarchy,
+        token: vscode.CancellationToken
+    ): Promise<{ items: WorkItem[]; breadcrumbs?: Map<number, string> }> {
+        const topLevel = getTreeLevels(hierarchy)[0];
+        if (!topLevel) return { items: [] };
+        const filters = this.getfiltersForService();
+        if (this.layout.view === 'tree') {
+            return { items: await this.backend.getRootWorkItemsForTeam(team, topLevel.workItemTypes, filters, token) };
+        }
+        return this.listItems(await this.backend.getBacklogTree(team, topLevel.workItemTypes, undefined, token));
+    }
+
+    /** True for nodes within an Unparented node. */
+    private isUnparented(node: BacklogItem): boolean {
+        for (let parent = node.parent; parent; parent = parent.parent) {
+            if (parent.type === 'unparented') return true;
+        }
+        return false;
+    }
+
+    /**
+     * What an Unparented node holds, in the same shape as `getTeamItems`: work items in a team's
+     * area that its tree doesn't reach, because they have no parent or their parent is in another area.
+     */
+    private async getUnparentedItems(
+        team: BacklogTeam,
+        token: vscode.CancellationToken
+    ): Promise<{ items: WorkItem[]; breadcrumbs?: Map<number, string> }> {
+        if (this.layout.view === 'tree') {
+            return { items: (await this.backend.getUnparentedTree(team, this.getfiltersForService(), token)).roots };
+        }
+        return this.listItems(await this.backend.getUnparentedTree(team, undefined, token));
+    }
+
+    /** Rows of the list view: every item of a tree that matches the filters, with its ancestors as a breadcrumb. */
+    private listItems(tree: BacklogTree): { items: WorkItem[]; breadcrumbs: Map<number, string> } {
+        const filters = this.getfiltersForService();
+        // Filtering the tree would keep the ancestors of matches, which the list shows as breadcrumbs instead
+        const parents = tree.getParents();
+        const items = tree.getAll().filter(item => matchesFilters(item, filters));
+        const breadcrumbs = new Map(items.map(item => {
+            const ancestors: WorkItem[] = [];
+            for (let parent = parents.get(item.id!); parent && !ancestors.includes(parent); parent = parents.get(parent.id!)) {
+                ancestors.unshift(parent);
+            }
+            return [item.id!, formatBreadcrumb(ancestors)];
+        }));
+        return { items, breadcrumbs };
+    }
+
+    private sortItems(items: WorkItem[], hierarchy: BacklogHierarchy): WorkItem[] {
+        return sortWorkItems(items, this.layout.sortBy, getEffortField(hierarchy));
+    }
+
+    private createUnparentedNode(team: BacklogItem, count: number): BacklogItem {
+        const node = new BacklogItem('Unparented', vscode.TreeItemCollapsibleState.Collapsed, 'unparented', undefined, team.teamName, team.team);
+        node.id = `${team.id}_unparented`;
+        node.parent = team;
+        node.description = `${count}`;
+        node.tooltip = 'Work items in this area without a parent in it, which the tree above doesn\'t reach';
+        node.contextValue = 'unparented';
+        node.iconPath = new vscode.ThemeIcon('debug-disconnect');
+        return node;
+    }
+
+    private createGroupNode(team: BacklogItem, key: string, label: string, description: string | undefined, count: number): BacklogItem {
+        const node = new BacklogItem(label, vscode.TreeItemCollapsibleState.Collapsed, 'group', undefined, team.teamName, team.team);
+        node.id = `${team.id}_${this.layout.groupBy}_${key}`;
+        node.groupKey = key;
+        node.parent = team;
+        node.description = description ? `${count} · ${description}` : `${count}`;
+        node.contextValue = 'group';
+        node.iconPath = new vscode.ThemeIcon(GROUP_MODES.find(g => g.mode === this.layout.groupBy)!.icon);
+        return node;
+    }
+
+    /** Abandons the requests still loading a node's children, e.g. when it is collapsed. */
+    cancelLoading(element: BacklogItem): void {
+        const loading = element.id ? this.loading.get(element.id) : undefined;
+        if (loading) {
+            loading.cancel();
+            // Load the children again the next time the node is expanded, without taking the place of a pending refresh
+            this.refreshImmediate(element);
+        }
+    }
+
+    /**
+     * Nodes for a page of items, followed by "Load More" if there are more. `levelIndex` is
+     * undefined for items from several levels, each shown on its own; rows of the list view
+     * come with `breadcrumbs` and don't expand.
+     */
+    private async paginateItems(
+        items: WorkItem[],
+        parentKey: string,
+        levelIndex: number | undefined,
+        hierarchy: BacklogHierarchy,
+        parent: BacklogItem,
+        token?: vscode.CancellationToken,
+        breadcrumbs?: Map<number, string>
+    ): Promise<BacklogItem[]> {
+        const team = parent.team;
         const loadedCount = this.loadedCounts.get(parentKey) || PAGE_SIZE;
         const itemsToShow = items.slice(0, loadedCount);
-        const result = itemsToShow.map(item => new BacklogItem(
-            item.fields!['System.Title'],
-            itemType === 'userstory' ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Collapsed,
-            itemType as any,
-            item,
-            teamName
-        ));
+        const levels = getTreeLevels(hierarchy);
+        const levelOf = (item: WorkItem) => levelIndex ?? getLevelIndex(hierarchy, item.fields!['System.WorkItemType']);
+        const hasChildLevel = (item: WorkItem) => levelOf(item) < levels.length - 1;
+
+        // Rollups are a nicety; show the items without them if the query fails
+        const rollupIds = itemsToShow.filter(hasChildLevel).map(item => item.id!);
+        const rollups = rollupIds.length > 0 && hierarchy.taskLevel
+            ? await this.backend.getRemainingWorkRollups(rollupIds, token).catch(() => new Map<number, number>())
+            : new Map<number, number>();
+        const outbox = this.backend.getOutboxState();
+
+        const result = itemsToShow.map(item => {
+            const node = new BacklogItem(
+                item.fields!['System.Title'],
+                !breadcrumbs && hasChildLevel(item) ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None,
+                'workItem',
+                item,
+                team?.key,
+                team,
+                levelOf(item),
+                hierarchy,
+                rollups.get(item.id!),
+                outbox,
+                breadcrumbs?.get(item.id!)
+            );
+            node.parent = parent;
+            // Items without a parent in the team's area can be given one
+            if (parent.type === 'unparented') node.contextValue += ' orphan';
+            this.nodes.set(node.id!, node);
+            return node;
+        });
         // Add "Load More" item if there are more items
         if (items.length > loadedCount) {
             const loadMoreItem = new BacklogItem(
@@ -260,7 +500,7 @@ export class AdoBacklogProvider implements vscode.TreeDataProvider<BacklogItem>,
                 vscode.TreeItemCollapsibleState.None,
                 'loadMore',
                 undefined,
-                teamName
+                team?.key
             );
             loadMoreItem.command = {
                 command: 'adoBacklog.loadMore',
@@ -273,6 +513,16 @@ export class AdoBacklogProvider implements vscode.TreeDataProvider<BacklogItem>,
         return result;
     }
 
+    /** Drops filters and paging state, e.g. after switching to another project. */
+    reset(): void {
+        this.searchText = '';
+        this.iterationFilter = '';
+        this.tagsFilter = [];
+        this.assignedToFilter = '';
+        this.loadedCounts.clear();
+        this.nodes.clear();
+    }
+
     loadMore(parentKey: string): void {
         const currentCount = this.loadedCounts.get(parentKey) || PAGE_SIZE;
         this.loadedCounts.set(parentKey, currentCount + PAGE_SIZE);
@@ -287,9 +537,10 @@ export class AdoBacklogProvider implements vscode.TreeDataProvider<BacklogItem>,
             // Store as JSON string to ensure proper serialization
             const itemsData = draggableItems.map(item => ({
                 id: item.workItem?.id,
-                type: item.type,
+                workItemType: item.workItem?.fields?.['System.WorkItemType'],
                 label: item.label,
-                teamName: item.teamName
+                teamName: item.teamName,
+                parentKey: this.getBacklogParent(item)?.id
             }));
             dataTransfer.set('application/vnd.code.tree.adoBacklog', new vscode.DataTransferItem(itemsData));
         }
@@ -301,61 +552,132 @@ export class AdoBacklogProvider implements vscode.TreeDataProvider<BacklogItem>,
             return;
         }
         const itemsData: any[] = transferItem.value;
+        const hierarchy = await this.backend.getHierarchy();
+        // A group stands in for its team
+        if (target?.type === 'group') target = target.parent;
+        const targetLevel = target?.type === 'team' ? -1
+            : target?.workItem ? getLevelIndex(hierarchy, target.workItem.fields!['System.WorkItemType'])
+            : undefined;
+        const targetParent = target?.workItem ? this.getBacklogParent(target) : undefined;
+        // Items dropped onto a sibling are moved just above it
+        const isReorder = (itemData: any) => !!targetParent && targetParent.type !== 'unparented'
+            && getLevelIndex(hierarchy, itemData.workItemType) >= 0
+            && getLevelIndex(hierarchy, itemData.workItemType) === targetLevel;
+        // Checked before anything moves, so a drop that can't be reordered changes nothing
+        const blocker = itemsData.some(itemData => itemData.id && itemData.id !== target?.workItem?.id && isReorder(itemData))
+            ? this.getReorderBlocker()
+            : undefined;
+        if (blocker) {
+            showError(blocker);
+            return;
+        }
+        const reordered: number[] = [];
         for (const itemData of itemsData) {
             if (!itemData.id) { continue; }
-            const draggedType = itemData.type;
-            const targetType = target?.type;
-            // Strict validation rules
-            if (draggedType === 'userstory' && targetType === 'feature') {
-                // User Story -> Feature: OK
-                await this.reparentWorkItemById(itemData.id, target!);
-            } else if (draggedType === 'bug' && targetType === 'feature') {
-                // Bug -> Feature: OK
-                await this.reparentWorkItemById(itemData.id, target!);
-            } else if (draggedType === 'feature' && targetType === 'epic') {
-                // Feature -> Epic: OK
-                await this.reparentWorkItemById(itemData.id, target!);
-            } else if (draggedType === 'epic' && targetType === 'team') {
-                // Epic -> Area Path: OK
-                await this.reparentWorkItemById(itemData.id, target!);
+            // A work item can go under a work item one level up, or onto a team if it's on the top level
+            const draggedLevel = getLevelIndex(hierarchy, itemData.workItemType);
+            if (target && draggedLevel >= 0 && targetLevel !== undefined && draggedLevel === targetLevel + 1) {
+                await this.reparentWorkItemById(itemData.id, target);
+            } else if (targetParent && isReorder(itemData)) {
+                if (itemData.id === target!.workItem!.id) continue;
+                // From under another parent, the item joins the target's siblings first; if that fails, it keeps its rank
+                if (itemData.parentKey !== targetParent.id && !await this.reparentWorkItemById(itemData.id, targetParent)) continue;
+                reordered.push(itemData.id);
             } else {
                 // Invalid move
-                vscode.window.showErrorMessage(
-                    `Cannot move ${draggedType} to ${targetType}. ` +
-                    `Valid moves: User Story→Feature, Bug→Feature, Feature→Epic, Epic→Area Path`
+                const parentName = draggedLevel === 0 ? 'a team' : getTreeLevels(hierarchy)[draggedLevel - 1]?.name;
+                const targetName = target?.type === 'team' ? 'a team' : target?.workItem?.fields!['System.WorkItemType'] || 'here';
+                showError(
+                    `Cannot move ${itemData.workItemType} to ${targetName}. ` +
+                    (parentName ? `${itemData.workItemType} items can only be moved onto ${parentName}.` : `${itemData.workItemType} is not on the backlog.`)
                 );
             }
         }
-        this.refresh();
+        if (reordered.length > 0) {
+            await this.reorderWorkItems(this.getBacklogParent(target!)!, reordered, target!.workItem!.id!);
+        }
+    }
+
+    /** Why items can't be reordered in the current layout, if they can't: the order shown must be the backlog's. */
+    private getReorderBlocker(): string | undefined {
+        if (this.layout.view === 'list') return 'Switch to the tree view to reorder work items.';
+        if (this.layout.sortBy !== 'priority') return 'Sort the tree by Priority to reorder work items.';
+        return undefined;
+    }
+
+    /** The team or work item a node sits under, skipping any group node in between. */
+    getBacklogParent(node: BacklogItem): BacklogItem | undefined {
+        return node.parent?.type === 'group' ? node.parent.parent : node.parent;
+    }
+
+    /**
+     * Moves work items under the same parent node to the top or bottom, or just above the work
+     * item with the given ID, by rewriting their backlog rank. Ranks are worked out against all
+     * the parent's children on that level, including those the filters hide.
+     */
+    async reorderWorkItems(parent: BacklogItem, workItemIds: number[], position: 'top' | 'bottom' | number): Promise<void> {
+        if (!parent.team) return;
+        if (parent.type === 'unparented') {
+            showError('Work items under Unparented can\'t be reordered there. Assign them a parent first.');
+            return;
+        }
+        const blocker = this.getReorderBlocker();
+        if (blocker) {
+            showError(blocker);
+            return;
+        }
+        const hierarchy = await this.backend.getHierarchy();
+        const levels = getTreeLevels(hierarchy);
+        const level = levels[parent.type === 'team' ? 0 : parent.levelIndex! + 1];
+        if (!level) return;
+        const siblings = (parent.type === 'team'
+            ? await this.backend.getRootWorkItemsForTeam(parent.team, level.workItemTypes)
+            : await this.backend.getChildWorkItems(parent.team, levels[0].workItemTypes, parent.workItem!.id!)
+        ).filter(item => level.workItemTypes.includes(item.fields!['System.WorkItemType']));
+
+        const rest = siblings.filter(item => !workItemIds.includes(item.id!));
+        const beforeId = position === 'top' ? rest[0]?.id : position === 'bottom' ? undefined : position;
+        const orderField = getOrderField(hierarchy);
+        const ranks = getReorderedRanks(siblings, orderField, workItemIds, beforeId);
+        const results = await this.backend.updateWorkItems([...ranks].map(([workItemId, rank]) => ({ workItemId, fields: { [orderField]: rank } })));
+        const failed = results.filter(result => result.error !== undefined);
+        if (failed.length > 0) {
+            showAdoError(
+                failed.length === 1 ? `Failed to reorder work item #${failed[0].workItemId}` : `Failed to reorder ${failed.length} work items`,
+                failed[0].error,
+                { workItemUrl: getWorkItemWebUrl(this.backend.getProfile(), failed[0].workItemId) }
+            );
+        }
     }
 
-    private async reparentWorkItemById(workItemId: number, newParent: BacklogItem): Promise<void> {
+    /** Moves a work item under another node, reporting any failure. Returns whether it moved. */
+    private async reparentWorkItemById(workItemId: number, newParent: BacklogItem): Promise<boolean> {
         try {
-            const config = vscode.workspace.getConfiguration('adoBacklog');
-            const orgUrl = config.get<string>('organizationUrl');
-            const project = config.get<string>('project');
-            if (!orgUrl || !project) {
-                vscode.window.showErrorMessage('Organization URL or Project not configured');
-                return;
+            if (!this.backend.hasConnectionSettings()) {
+                showError('Organization URL or Project not configured');
+                return false;
             }
             // Remove existing parent link
-            await this.adoService.removeParentLink(workItemId);
+            await this.backend.removeParentLink(workItemId);
             // Add new parent link based on target type
             if (newParent.type === 'team') {
-                // Moving Epic to Area Path - use teamName which has the full path
-                const fullAreaPath = newParent.teamName || newParent.label;
-                await this.adoService.updateWorkItem(workItemId, {
+                // Moving a top-level item to a team - use the team's default area path
+                const fullAreaPath = newParent.team?.defaultAreaPath || newParent.label;
+                await this.backend.updateWorkItem(workItemId, {
                     'System.AreaPath': fullAreaPath
                 });
             } else if (newParent.workItem) {
                 // Moving to another work item - add parent link
-                await this.adoService.addParentLink(workItemId, newParent.workItem.id!);
+                await this.backend.addParentLink(workItemId, newParent.workItem.id!);
             }
-            vscode.window.showInformationMessage(
-                `Work item #${workItemId} moved to ${newParent.label}`
+            vscode.window.showInformationMessage(this.backend.getOutboxState().pending.includes(workItemId)
+                ? `Azure DevOps can't be reached. Work item #${workItemId} will be moved to ${newParent.label} once it can.`
+                : `Work item #${workItemId} moved to ${newParent.label}`
             );
+            return true;
         } catch (error: any) {
-            vscode.window.showErrorMessage(`Failed to move work item: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            showAdoError(`Failed to move work item #${workItemId}`, error, { workItemUrl: getWorkItemWebUrl(this.backend.getProfile(), workItemId) });
+            return false;
         }
     }
 
@@ -1,13 +1,84 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
 import * as azdev from 'azure-devops-node-api';
 import { WorkItem, WorkItemExpand } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
 import { TeamContext } from 'azure-devops-node-api/interfaces/CoreInterfaces';
+import { AuthStrategy } from './auth';
+import { ConnectionProfile, getActiveProfile } from './profiles';
+import { BacklogTeam, discoverTeams, getManualTeams, isInTeamScope, selectTeams } from './teams';
+import { BacklogHierarchy, DEFAULT_HIERARCHY, EFFORT_FIELDS, ORDER_FIELDS, TASK_FIELD_DEFAULTS, getLowerLevelTypes, getOrderField, getTreeLevels, loadBacklogHierarchy } from './hierarchy';
+import { byBacklogOrder } from './backlogOrder';
+import { ConnectionTestStage, createConnection, getCollectionUrl, getWorkItemApiUrl, negotiateApiVersion, testConnection } from './connection';
+import { WorkItemStore } from './workItemStore';
+import { BacklogTree, WorkItemFilters, hasFilters } from './backlogTree';
+import { CacheIndex } from './cacheIndex';
+import { DEFAULT_CONCURRENCY, fetchWorkItemsInBatches, mapConcurrent, queryLinkTree, queryWorkItemIds } from './batchFetch';
+import { RetryOptions, withRetries } from './retry';
+import { Cassette, CassettePlayer, CassetteRecorder, createReplayClient, getHandlerSecrets, withRecording } from './cassette';
+import { describeError, log, withTracing } from './log';
+import { Outbox, PendingEdit, applyFields, isOffline, withPendingEdits } from './outbox';
+import { BacklogBackend, BulkResult, FetchProgress, OutboxState, SyncState, TeamMember, ThrottleState, WorkItemTypeField, WorkItemUpdate } from './backend';
+
+const OUTBOX_RETRY_INTERVAL = 30 * 1000;
+
+/** A change to a work item as far as the cached trees and rollups are concerned, see `invalidateWorkItemCache`. */
+interface WorkItemChange {
+    workItemId: number;
+    newParentId?: number;
+    scopeChanged?: boolean;
+}
+
+function getChange(edit: PendingEdit): WorkItemChange {
+    switch (edit.kind) {
+        // Moving to another area or type can move the item to another team's backlog
+        case 'update': return { workItemId: edit.workItemId, scopeChanged: 'System.AreaPath' in edit.fields || 'System.WorkItemType' in edit.fields };
+        case 'removeParent': return { workItemId: edit.workItemId };
+        case 'addParent': return { workItemId: edit.workItemId, newParentId: edit.parentId };
+    }
+}
 
-export class AdoService {
+export class AdoService implements BacklogBackend {
     private connection: azdev.WebApi | null = null;
-    private config: any = {};
+    private rawConnection: azdev.WebApi | null = null;
+    private throttle?: ThrottleState;
+    private _onDidChangeThrottling = new vscode.EventEmitter<ThrottleState | undefined>();
+    readonly onDidChangeThrottling: vscode.Event<ThrottleState | undefined> = this._onDidChangeThrottling.event;
+    private config: ConnectionProfile = getActiveProfile();
+    private auth: AuthStrategy;
+    private authKey = '';
+    private signedIn = false;
+    private ready: Promise<void>;
+    private _onDidChangeConnection = new vscode.EventEmitter<void>();
+    readonly onDidChangeConnection: vscode.Event<void> = this._onDidChangeConnection.event;
+    private _onDidChangeSyncState = new vscode.EventEmitter<SyncState>();
+    readonly onDidChangeSyncState: vscode.Event<SyncState> = this._onDidChangeSyncState.event;
+    private _onDidSync = new vscode.EventEmitter<void>();
+    /** Fires when a sync brought changes the tree should show. */
+    readonly onDidSync: vscode.Event<void> = this._onDidSync.event;
+    private store?: WorkItemStore;
+    private storeFile?: string;
+    private syncing?: Promise<void>;
+    private syncState: SyncState = { syncing: false, stale: false };
+    private _onDidChangeFetchProgress = new vscode.EventEmitter<FetchProgress | undefined>();
+    /** Fires as large sets of work items load; `undefined` once nothing is loading. */
+    readonly onDidChangeFetchProgress: vscode.Event<FetchProgress | undefined> = this._onDidChangeFetchProgress.event;
+    private fetchProgress = { loaded: 0, total: 0, active: 0 };
     private cache = new Map<string, {data: any, timestamp: number}>();
+    private cacheIndex = new CacheIndex();
+    private _onDidChangeWorkItems = new vscode.EventEmitter<number[] | undefined>();
+    /** Fires after a change with the work items whose tree nodes are stale; `undefined` when any might be. */
+    readonly onDidChangeWorkItems: vscode.Event<number[] | undefined> = this._onDidChangeWorkItems.event;
     private stateCache = new Map<string, string[]>();
+    private recorder?: CassetteRecorder;
+    private outbox = new Outbox();
+    private outboxKey?: string;
+    private flushing?: Promise<void>;
+    private flushTimer?: NodeJS.Timeout;
+    // Backlog trees with the queued edits applied, by the key of the tree they were built from
+    private pendingViews = new Map<string, { base: BacklogTree; view: BacklogTree }>();
+    private _onDidChangeOutbox = new vscode.EventEmitter<OutboxState>();
+    readonly onDidChangeOutbox: vscode.Event<OutboxState> = this._onDidChangeOutbox.event;
     private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
     /** Escape a string value for safe interpolation into WIQL string literals. */
@@ -15,26 +86,76 @@ export class AdoService {
         return value.replace(/'/g, "''");
     }
 
-    constructor() {
-        this.loadConfig();
+    /** @param replay A recording to serve every request from instead of Azure DevOps. */
+    constructor(
+        private readonly createAuthStrategy: (profile: ConnectionProfile) => AuthStrategy,
+        private readonly storageUri?: vscode.Uri,
+        private readonly replay?: Cassette
+    ) {
+        this.auth = this.createAuth();
+        this.ready = this.loadConfig();
         vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('adoBacklog')) {
-                this.loadConfig();
+            // Proxy and certificate settings live under `http`
+            if (e.affectsConfiguration('adoBacklog') || e.affectsConfiguration('http')) {
+                this.ready = this.loadConfig();
                 this.clearCache(); // Clear cache when config changes
             }
         });
     }
 
+    private createAuth(): AuthStrategy {
+        this.authKey = this.getAuthKey(this.config);
+        const auth = this.createAuthStrategy(this.config);
+        // Rebuild the connection whenever the credential changes. A plain token
+        // refresh keeps the same identity, so cached data stays valid.
+        auth.onDidChange(e => {
+            if (auth !== this.auth) { return; }
+            this.ready = this.loadConfig(!e.refreshed);
+            if (!e.refreshed) {
+                this.clearCache();
+            }
+        });
+        return auth;
+    }
+
+    /** Credentials are shared by everything with the same profile, method and tenant. */
+    private getAuthKey(profile: ConnectionProfile): string {
+        return `${profile.name}|${profile.authenticationMethod}|${profile.tenantId || ''}`;
+    }
+
+    async signIn(): Promise<boolean> {
+        if (this.replay) return true;
+        return this.auth.signIn();
+    }
+
+    async signOut(): Promise<void> {
+        if (this.replay) return;
+        // Work item data stays on disk only while someone is signed in
+        await this.store?.delete().catch(error => log.error('Error deleting work item cache', error));
+        await this.outbox.clear().catch(error => log.error('Error deleting pending edits', error));
+        this.showOutboxChange(undefined);
+        await this.auth.signOut();
+    }
+
+    /** Resolves once the latest settings and stored credentials have been loaded. */
+    whenReady(): Promise<void> {
+        return this.ready;
+    }
+
     clearCache(): void {
         this.cache.clear();
+        this.cacheIndex.clear();
         this.stateCache.clear();
+        this.pendingViews.clear();
     }
 
     private getCached<T>(key: string): T | null {
         const cached = this.cache.get(key);
         if (cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+            log.trace(`Cache hit: ${key}`);
             return cached.data as T;
         }
+        log.trace(`Cache miss: ${key}`);
         return null;
     }
 
@@ -42,275 +163,652 @@ export class AdoService {
         this.cache.set(key, {data, timestamp: Date.now()});
     }
 
-    private loadConfig() {
-        const config = vscode.workspace.getConfiguration('adoBacklog');
-        this.config = {
-            organizationUrl: config.get<string>('organizationUrl'),
-            pat: config.get<string>('personalAccessToken'),
-            project: config.get<string>('project'),
-            areaPaths: config.get<string[]>('areaPaths') || []
+    private getRetryOptions(token?: vscode.CancellationToken): RetryOptions {
+        return {
+            token,
+            onRetry: retry => {
+                log.warn(`Retrying Azure DevOps request in ${Math.round(retry.delayMs)}ms (attempt ${retry.attempt}): ${describeError(retry.error)}`);
+                if (retry.throttled) {
+                    this.throttle = { resource: retry.resource, retryAt: Date.now() + retry.delayMs };
+                    this._onDidChangeThrottling.fire(this.throttle);
+                }
+            },
+            onSuccess: () => {
+                if (this.throttle) {
+                    this.throttle = undefined;
+                    this._onDidChangeThrottling.fire(undefined);
+                }
+            }
         };
+    }
+
+    /** The connection, with requests abandoned once `token` is cancelled, e.g. when a tree node collapses. */
+    private getConnection(token?: vscode.CancellationToken): azdev.WebApi | null {
+        if (!this.rawConnection || !token) return this.connection;
+        return withRetries(this.rawConnection, this.getRetryOptions(token));
+    }
 
-        if (this.isConfigured()) {
-            const authHandler = azdev.getPersonalAccessTokenHandler(this.config.pat);
-            this.connection = new azdev.WebApi(this.config.organizationUrl, authHandler);
+    /** Opens the on-disk cache for the current organization and project, then syncs it in the background. */
+    private async openStore(): Promise<void> {
+        const enabled = vscode.workspace.getConfiguration('adoBacklog').get<boolean>('persistentCache', true);
+        // Recordings have to see every request, and replays mustn't mix with real data
+        if (!this.storageUri || !enabled || this.recorder || this.replay) {
+            this.closeStore();
+            return;
         }
+
+        const file = path.join(this.storageUri.fsPath, 'cache', `${this.getStorageKey()}.json`);
+        if (file === this.storeFile) {
+            // Settings such as custom fields changed what is fetched
+            if (!this.store!.hasFields(this.getWorkItemFields())) {
+                this.sync();
+            }
+            return;
+        }
+
+        this.closeStore();
+        const store = new WorkItemStore(file);
+        this.store = store;
+        this.storeFile = file;
+        const loaded = await store.load();
+        this.setSyncState({ syncing: false, stale: loaded });
+        this.sync();
     }
 
-    isConfigured(): boolean {
-        return !!(this.config.organizationUrl && this.config.pat && this.config.project);
+    /** Names the files kept for the current organization and project. */
+    private getStorageKey(): string {
+        return crypto.createHash('sha256')
+            .update(`${getCollectionUrl(this.config).toLowerCase()}|${this.config.project.toLowerCase()}`)
+            .digest('hex')
+            .slice(0, 16);
     }
 
-    async getTeams(): Promise<any[]> {
-        if (!this.connection) return [];
+    /** Loads the edits queued offline for the current organization and project, and tries to send them. */
+    private async openOutbox(): Promise<void> {
+        const key = this.getStorageKey();
+        if (key === this.outboxKey) return;
+        this.outboxKey = key;
+        const outbox = new Outbox(this.storageUri && path.join(this.storageUri.fsPath, 'outbox', `${key}.json`));
+        await outbox.load();
+        this.outbox = outbox;
+        this.showOutboxChange(undefined);
+        this.scheduleFlush(0);
+    }
 
-        if (this.config.areaPaths && this.config.areaPaths.length > 0) {
-            return this.config.areaPaths.map((path: string) => ({
-                name: path.split('\\').pop() || path, // Get last segment
-                fullPath: path
-            }));
-        }
+    private closeStore(): void {
+        this.store = undefined;
+        this.storeFile = undefined;
+        this.setSyncState({ syncing: false, stale: false });
+    }
 
-        // If no area paths configured, return empty (require configuration)
-        return [];
+    private setSyncState(state: SyncState): void {
+        this.syncState = state;
+        this._onDidChangeSyncState.fire(state);
     }
 
-    getCustomFieldNames(): string[] {
-        const config = vscode.workspace.getConfiguration('adoBacklog');
-        const customFields = config.get<any[]>('customFields') || [];
-        const names = new Set<string>();
-        for (const field of customFields) {
-            if (field.fieldReferenceName) {
-                names.add(field.fieldReferenceName);
-            }
-        }
-        return Array.from(names);
+    getSyncState(): SyncState {
+        return this.syncState;
     }
 
-    async getWorkItem(id: number): Promise<WorkItem | null> {
-        if (!this.connection) { return null; }
-        const witApi = await this.connection.getWorkItemTrackingApi();
-        const fields = [
+    /** Fields kept for every work item in the tree. */
+    private getWorkItemFields(): string[] {
+        return [
             'System.Id', 'System.Title', 'System.State',
             'System.WorkItemType',
             'System.AreaPath', 'System.IterationPath', 'System.AssignedTo',
             'System.Tags', 'System.Description', 'Microsoft.VSTS.Common.AcceptanceCriteria',
-            'Microsoft.VSTS.Scheduling.StoryPoints',
-            ...this.getCustomFieldNames()
+            ...EFFORT_FIELDS,
+            ...Object.values(TASK_FIELD_DEFAULTS),
+            ...ORDER_FIELDS,
+            ...this.getCustomFieldNames(),
+            // Needed to build the tree from the on-disk cache and sync it
+            'System.Parent', 'System.ChangedDate'
         ];
-        const workItem = await witApi.getWorkItem(id, fields);
-        return workItem || null;
     }
 
-    async getEpicsForTeam(
-        areaPathName: string,
-        filters?: {
-            searchText?: string;
-            iteration?: string;
-            tags?: string[];
-            assignedTo?: string;
+    /** True if the on-disk cache can answer tree queries. */
+    private canUseStore(): boolean {
+        // Until a sync refetches them, items cached with other fields (e.g. before a custom field was added) can't be used
+        return !!this.store?.isComplete() && this.store.hasFields(this.getWorkItemFields());
+    }
+
+    /**
+     * Brings the on-disk cache up to date: fetches items changed since the last sync and
+     * drops items that were deleted or left the backlog. Concurrent calls share one sync.
+     */
+    sync(): Promise<void> {
+        if (!this.syncing) {
+            this.syncing = this.runSync().finally(() => {
+                this.syncing = undefined;
+            });
         }
-    ): Promise<WorkItem[]> {
-        if (!this.connection) return [];
+        return this.syncing;
+    }
 
-        // Build cache key that includes filters
-        const filterKey = filters ? JSON.stringify(filters) : 'nofilters';
-        const cacheKey = `epics_${areaPathName}_${filterKey}`;
-        const cached = this.getCached<WorkItem[]>(cacheKey);
-        if (cached) return cached;
+    private async runSync(): Promise<void> {
+        const store = this.store;
+        const connection = this.connection;
+        if (!store || !connection) return;
 
-        const witApi = await this.connection.getWorkItemTrackingApi();
+        const project = this.config.project;
+        const manualAreas = this.config.areaPaths.length > 0;
+        this.setSyncState({ ...this.syncState, syncing: true, error: undefined });
+        try {
+            // The levels and teams the tree is built from may have changed too
+            const hierarchy = await loadBacklogHierarchy(connection, project);
+            const teams = manualAreas ? undefined : await discoverTeams(connection, project);
+            if (store !== this.store) return;
+            store.setMeta('hierarchy', hierarchy);
+            this.setCache('hierarchy', hierarchy);
+            if (teams) {
+                store.setMeta('discoveredTeams', teams);
+                this.setCache('discoveredTeams', teams);
+            }
 
-        // Use the full path if available, otherwise construct it
-        const areaPath = areaPathName.includes('\\') ? areaPathName : `${this.config.project}\\${areaPathName}`;
+            const types = getTreeLevels(hierarchy).flatMap(level => level.workItemTypes);
+            if (types.length === 0) {
+                this.setSyncState({ syncing: false, stale: false });
+                return;
+            }
+            const scope = `[System.TeamProject] = @project
+                AND [System.WorkItemType] IN (${types.map(t => `'${this.escapeWiql(t)}'`).join(', ')})`;
+
+            const witApi = await connection.getWorkItemTrackingApi();
+            // Every ID still on the backlog; whatever the store holds beyond these was deleted or moved away
+            const scopeIds = await queryWorkItemIds(witApi, scope, { project });
+
+            const fields = this.getWorkItemFields();
+            let changedIds = scopeIds;
+            if (store.watermark && store.hasFields(fields)) {
+                const changed = new Set(await queryWorkItemIds(witApi,
+                    `${scope} AND [System.ChangedDate] >= '${store.watermark}'`,
+                    { project },
+                    { timePrecision: true }
+                ));
+                // Items new to the scope can be older than the watermark, e.g. after a type change
+                changedIds = scopeIds.filter(id => changed.has(id) || !store.has(id));
+            }
 
-        // Build WHERE clause with filters
-        let whereClause = `WHERE [System.TeamProject] = @project
-            AND [System.WorkItemType] = 'Epic'
-            AND [System.AreaPath] UNDER '${this.escapeWiql(areaPath)}'`;
+            const changedItems = await this.fetchWorkItems(changedIds, fields);
+            if (store !== this.store) return;
+            const modified = store.applySync(scopeIds, changedItems, fields);
+            log.info(`Synced ${changedItems.length} changed of ${scopeIds.length} work items`);
+            await store.save();
 
-        if (filters?.searchText) {
-            const searchText = filters.searchText;
-            // Check if it's a number (ID search) or text (title search)
-            const parsedId = parseInt(searchText, 10);
-            if (/^\d+$/.test(searchText) && isFinite(parsedId)) {
-                whereClause += ` AND [System.Id] = ${parsedId}`;
-            } else {
-                whereClause += ` AND [System.Title] CONTAINS '${this.escapeWiql(searchText)}'`;
+            this.setSyncState({ syncing: false, stale: false });
+            if (modified) {
+                this.clearCache();
+                this._onDidSync.fire();
+            }
+            // Azure DevOps is reachable again
+            this.sendPendingEdits();
+        } catch (error: any) {
+            log.error('Error syncing work items', error);
+            if (store === this.store) {
+                this.setSyncState({ syncing: false, stale: this.syncState.stale, error: error.message });
             }
         }
+    }
 
-        if (filters?.iteration) {
-            whereClause += ` AND [System.IterationPath] UNDER '${this.escapeWiql(filters.iteration)}'`;
+    /** Fetches work items in batches, skipping any that no longer exist; progress is reported to the tree. */
+    private async fetchWorkItems(ids: number[], fields: string[], token?: vscode.CancellationToken): Promise<WorkItem[]> {
+        const connection = this.getConnection(token);
+        if (!connection || ids.length === 0) return [];
+        const witApi = await connection.getWorkItemTrackingApi();
+
+        // Concurrent fetches, e.g. two teams expanding at once, add up to one progress figure
+        const progress = this.fetchProgress;
+        progress.total += ids.length;
+        progress.active++;
+        let reported = 0;
+        try {
+            return await fetchWorkItemsInBatches(witApi, ids, fields, {
+                onProgress: loaded => {
+                    progress.loaded += loaded - reported;
+                    reported = loaded;
+                    this._onDidChangeFetchProgress.fire({ loaded: progress.loaded, total: progress.total });
+                }
+            });
+        } finally {
+            progress.active--;
+            if (progress.active === 0) {
+                this.fetchProgress = { loaded: 0, total: 0, active: 0 };
+                this._onDidChangeFetchProgress.fire(undefined);
+            }
         }
+    }
 
-        if (filters?.tags && filters.tags.length > 0) {
-            const tagConditions = filters.tags.map(tag => {
-                return `([System.Tags] CONTAINS '${this.escapeWiql(tag)}')`;
-            }).join(' AND ');
-            whereClause += ` AND (${tagConditions})`;
+    /** Refreshes edited work items in the on-disk cache so the tree doesn't show them stale until the next sync. */
+    private async refreshStoredItems(ids: number[]): Promise<void> {
+        const store = this.store;
+        if (!store?.isComplete()) return;
+        try {
+            const items = await this.fetchWorkItems(ids, this.getWorkItemFields());
+            const found = new Set(items.map(item => item.id));
+            store.upsert(items);
+            store.remove(ids.filter(id => !found.has(id)));
+        } catch (error) {
+            // The next sync picks the change up
+            log.error('Error refreshing cached work items', error);
         }
+    }
 
-        if (filters?.assignedTo) {
-            whereClause += ` AND [System.AssignedTo] CONTAINS '${this.escapeWiql(filters.assignedTo)}'`;
+    private async loadConfig(notify = true): Promise<void> {
+        if (this.replay) {
+            this.loadReplay(notify);
+            return;
         }
+        this.config = getActiveProfile();
 
-        const wiql = {
-            query: `SELECT [System.Id] FROM WorkItems
-                ${whereClause}
-                ORDER BY [System.Title]`
-        };
+        // Switching profile or auth method needs a different credential
+        if (this.getAuthKey(this.config) !== this.authKey) {
+            this.auth.dispose();
+            this.auth = this.createAuth();
+        }
 
-        const result = await witApi.queryByWiql(wiql, { project: this.config.project });
+        const authHandler = await this.auth.getHandler().catch(() => null);
+        this.signedIn = !!authHandler;
 
-        if (!result.workItems || result.workItems.length === 0) {
-            this.setCache(cacheKey, []);
-            return [];
+        if (authHandler && this.isConfigured()) {
+            const { connection, versionHandler } = createConnection(this.config, authHandler);
+            // Older Azure DevOps Server releases reject newer API versions, so ask what they support
+            if (this.config.serverType === 'server' && !this.config.apiVersion) {
+                versionHandler.maxVersion = await negotiateApiVersion(connection).catch(() => undefined);
+            }
+            if (this.recorder) {
+                this.recorder.addSecrets(getHandlerSecrets(authHandler));
+            }
+            // Every request made through the connection is logged, and retried when throttled or transiently failing
+            this.rawConnection = withTracing(this.recorder ? withRecording(connection, this.recorder) : connection);
+            this.connection = withRetries(this.rawConnection, this.getRetryOptions());
+            log.info(`Connected to ${getCollectionUrl(this.config)}, project ${this.config.project} (profile ${this.config.name}${versionHandler.maxVersion ? `, API ${versionHandler.maxVersion}` : ''})`);
+            await this.openOutbox();
+            await this.openStore();
+        } else {
+            log.info(this.signedIn ? 'Organization URL or project not configured' : 'Not signed in to Azure DevOps');
+            this.rawConnection = null;
+            this.connection = null;
+            this.closeStore();
+        }
+        if (notify) {
+            this._onDidChangeConnection.fire();
         }
+    }
 
-        const ids = result.workItems.map(wi => wi.id!);
-        // Fetch only needed fields for performance
-        const fields = [
-            'System.Id', 'System.Title', 'System.State',
-            'System.WorkItemType',
-            'System.AreaPath', 'System.IterationPath', 'System.AssignedTo',
-            'System.Tags', 'System.Description', 'Microsoft.VSTS.Common.AcceptanceCriteria', 'Microsoft.VSTS.Scheduling.StoryPoints',
-            ...this.getCustomFieldNames()
-        ];
-        const workItems = await witApi.getWorkItems(ids, fields, undefined, undefined);
+    /** Connects to the recorded responses instead of Azure DevOps, as the profile they were recorded with. */
+    private loadReplay(notify: boolean): void {
+        this.config = this.replay!.profile;
+        this.signedIn = true;
+        this.rawConnection = withTracing(createReplayClient<azdev.WebApi>(new CassettePlayer(this.replay!)));
+        this.connection = withRetries(this.rawConnection, this.getRetryOptions());
+        log.info(`Replaying ${this.replay!.entries.length} requests recorded on ${this.replay!.recordedAt}`);
+        this.closeStore();
+        if (notify) {
+            this._onDidChangeConnection.fire();
+        }
+    }
 
-        const result2 = workItems || [];
-        this.setCache(cacheKey, result2);
+    isReplaying(): boolean {
+        return !!this.replay;
+    }
 
-        // Pre-fetch children for epics if small set (performance optimization)
-        if (result2.length > 0 && result2.length <= 10) {
-            this.preFetchChildren(result2.map(wi => wi.id!));
-        }
+    isRecording(): boolean {
+        return !!this.recorder;
+    }
 
-        return result2;
+    /** Starts capturing every request and response into a cassette, reloading the backlog so it is all captured. */
+    startRecording(): void {
+        if (this.replay || this.recorder) return;
+        this.recorder = new CassetteRecorder(this.config);
+        log.info('Recording Azure DevOps requests');
+        this.clearCache();
+        this.ready = this.loadConfig();
     }
 
-    async getChildWorkItems(
-        parentId: number,
-        filters?: {
-            searchText?: string;
-            iteration?: string;
-            tags?: string[];
-            assignedTo?: string;
-        }
-    ): Promise<WorkItem[]> {
-        if (!this.connection) return [];
+    /** Stops recording and returns what was captured, with credentials and email addresses scrubbed. */
+    stopRecording(): Cassette | undefined {
+        const recorder = this.recorder;
+        if (!recorder) return undefined;
+        this.recorder = undefined;
+        log.info(`Stopped recording after ${recorder.size} requests`);
+        this.ready = this.loadConfig(false);
+        return recorder.toCassette();
+    }
 
-        // Build cache key that includes filters
-        const filterKey = filters ? JSON.stringify(filters) : 'nofilters';
-        const cacheKey = `children_${parentId}_${filterKey}`;
-        const cached = this.getCached<WorkItem[]>(cacheKey);
-        if (cached) return cached;
+    /** True when organization URL and project are set, regardless of sign-in. */
+    hasConnectionSettings(): boolean {
+        return !!(this.config.organizationUrl && this.config.project);
+    }
 
-        const witApi = await this.connection.getWorkItemTrackingApi();
+    isSignedIn(): boolean {
+        return this.signedIn;
+    }
 
-        // Build WHERE clause for target work items with filters
-        let targetConditions = '';
+    isConfigured(): boolean {
+        return this.hasConnectionSettings() && this.isSignedIn();
+    }
 
-        if (filters?.searchText) {
-            const searchText = filters.searchText;
-            const parsedId = parseInt(searchText, 10);
-            if (/^\d+$/.test(searchText) && isFinite(parsedId)) {
-                targetConditions += ` AND [Target].[System.Id] = ${parsedId}`;
-            } else {
-                targetConditions += ` AND [Target].[System.Title] CONTAINS '${this.escapeWiql(searchText)}'`;
-            }
-        }
+    /** The profile the service is currently connected with. */
+    getProfile(): ConnectionProfile {
+        return this.config;
+    }
 
-        if (filters?.iteration) {
-            targetConditions += ` AND [Target].[System.IterationPath] UNDER '${this.escapeWiql(filters.iteration)}'`;
+    /** Runs the connection diagnostics against the current profile and credentials. */
+    async testConnection(): Promise<ConnectionTestStage[]> {
+        await this.ready;
+        if (this.replay) {
+            return [{ name: 'Settings', ok: true, detail: `Replaying requests recorded on ${this.replay.recordedAt}; nothing is sent to Azure DevOps.` }];
         }
+        const authHandler = await this.auth.getHandler().catch(() => null);
+        return testConnection(this.config, authHandler);
+    }
 
-        if (filters?.tags && filters.tags.length > 0) {
-            const tagConditions = filters.tags.map(tag => {
-                return `([Target].[System.Tags] CONTAINS '${this.escapeWiql(tag)}')`;
-            }).join(' AND ');
-            targetConditions += ` AND (${tagConditions})`;
-        }
+    async getTeams(): Promise<BacklogTeam[]> {
+        if (!this.connection) return [];
 
-        if (filters?.assignedTo) {
-            targetConditions += ` AND [Target].[System.AssignedTo] CONTAINS '${this.escapeWiql(filters.assignedTo)}'`;
+        // A manual area path list overrides team discovery
+        if (this.config.areaPaths.length > 0) {
+            return getManualTeams(this.config.areaPaths);
         }
+        return selectTeams(await this.discoverTeams(), this.config.teams);
+    }
 
-        const wiql = {
-            query: `SELECT [System.Id] FROM WorkItemLinks
-                WHERE ([Source].[System.Id] = ${parentId})
-                AND ([System.Links.LinkType] = 'System.LinkTypes.Hierarchy-Forward')
-                ${targetConditions}
-                MODE (MustContain)`
-        };
+    /** All teams in the project with the area paths from their team settings. */
+    async discoverTeams(): Promise<BacklogTeam[]> {
+        if (!this.connection) return [];
 
-        const result = await witApi.queryByWiql(wiql, { project: this.config.project });
+        const cacheKey = 'discoveredTeams';
+        const cached = this.getCached<BacklogTeam[]>(cacheKey) || this.store?.getMeta<BacklogTeam[]>(cacheKey);
+        if (cached) return cached;
 
-        if (!result.workItemRelations || result.workItemRelations.length <= 1) {
-            this.setCache(cacheKey, []);
-            return [];
-        }
+        const teams = await discoverTeams(this.connection, this.config.project);
+        this.setCache(cacheKey, teams);
+        this.store?.setMeta(cacheKey, teams);
+        return teams;
+    }
 
-        const childIds = result.workItemRelations
-            .slice(1) // Skip the parent
-            .map(rel => rel.target?.id)
-            .filter((id): id is number => id !== undefined);
+    /** Backlog levels of the project's process; falls back to the Agile levels if they can't be read. */
+    async getHierarchy(): Promise<BacklogHierarchy> {
+        if (!this.connection) return DEFAULT_HIERARCHY;
 
-        if (childIds.length === 0) {
-            this.setCache(cacheKey, []);
-            return [];
+        const cacheKey = 'hierarchy';
+        const cached = this.getCached<BacklogHierarchy>(cacheKey) || this.store?.getMeta<BacklogHierarchy>(cacheKey);
+        if (cached) return cached;
+
+        let loaded = true;
+        const hierarchy = await loadBacklogHierarchy(this.connection, this.config.project).catch(error => {
+            log.error('Error loading backlog configuration', error);
+            loaded = false;
+            return DEFAULT_HIERARCHY;
+        });
+        this.setCache(cacheKey, hierarchy);
+        if (loaded) {
+            this.store?.setMeta(cacheKey, hierarchy);
         }
+        return hierarchy;
+    }
 
-        // Fetch only needed fields for performance
+    getCustomFieldNames(): string[] {
+        const config = vscode.workspace.getConfiguration('adoBacklog');
+        const customFields = config.get<any[]>('customFields') || [];
+        const names = new Set<string>();
+        for (const field of customFields) {
+            if (field.fieldReferenceName) {
+                names.add(field.fieldReferenceName);
+            }
+        }
+        return Array.from(names);
+    }
+
+    async getWorkItem(id: number): Promise<WorkItem | null> {
+        if (!this.connection) { return null; }
+        const witApi = await this.connection.getWorkItemTrackingApi();
         const fields = [
             'System.Id', 'System.Title', 'System.State',
             'System.WorkItemType',
             'System.AreaPath', 'System.IterationPath', 'System.AssignedTo',
-            'System.Tags', 'System.Description', 'Microsoft.VSTS.Common.AcceptanceCriteria', 'Microsoft.VSTS.Scheduling.StoryPoints',
+            'System.Tags', 'System.Description', 'Microsoft.VSTS.Common.AcceptanceCriteria',
+            'Microsoft.VSTS.Scheduling.StoryPoints',
+            ...Object.values(TASK_FIELD_DEFAULTS),
             ...this.getCustomFieldNames()
         ];
-        const workItems = await witApi.getWorkItems(childIds, fields, undefined, undefined);
+        const workItem = await witApi.getWorkItem(id, fields);
+        return workItem || null;
+    }
 
-        const result2 = workItems || [];
-        this.setCache(cacheKey, result2);
+    /** Work items of the given types in a team's area scope, i.e. the top backlog level under a tree root. */
+    async getRootWorkItemsForTeam(
+        team: BacklogTeam,
+        workItemTypes: string[],
+        filters?: WorkItemFilters,
+        token?: vscode.CancellationToken
+    ): Promise<WorkItem[]> {
+        return (await this.getBacklogTree(team, workItemTypes, filters, token)).roots;
+    }
 
-        return result2;
+    /** Children of a work item in a team's backlog tree. */
+    async getChildWorkItems(
+        team: BacklogTeam,
+        rootTypes: string[],
+        parentId: number,
+        filters?: WorkItemFilters,
+        token?: vscode.CancellationToken
+    ): Promise<WorkItem[]> {
+        return (await this.getBacklogTree(team, rootTypes, filters, token)).getChildren(parentId);
     }
 
-    async getBatchChildWorkItems(parentIds: number[]): Promise<Map<number, WorkItem[]>> {
-        if (!this.connection) return new Map();
+    /**
+     * A team's whole backlog, from the items of `rootTypes` in its area scope down to tasks.
+     * Filters are applied to the full tree, so a match keeps its ancestors on every level.
+     */
+    async getBacklogTree(
+        team: BacklogTeam,
+        rootTypes: string[],
+        filters?: WorkItemFilters,
+        token?: vscode.CancellationToken
+    ): Promise<BacklogTree> {
+        if (!this.connection) return new BacklogTree([], () => []);
+
+        const cacheKey = `tree_${team.key}_${rootTypes.join(',')}`;
+        const filteredKey = `${cacheKey}_${JSON.stringify(filters)}`;
+        // Filtering a tree with queued edits applied isn't cached, as the edits change as they are sent
+        const pending = this.outbox.getEdits().length > 0;
+        if (hasFilters(filters) && !pending) {
+            const cachedFiltered = this.getCached<BacklogTree>(filteredKey);
+            if (cachedFiltered) return cachedFiltered;
+        }
 
-        const results = new Map<number, WorkItem[]>();
-        const uncachedParents: number[] = [];
+        let tree = this.getCached<BacklogTree>(cacheKey);
+        if (!tree) {
+            const loaded = this.canUseStore() ? this.getStoredBacklogTree(team, rootTypes) : await this.queryBacklogTree(team, rootTypes, token);
+            tree = loaded.sorted(byBacklogOrder(getOrderField(await this.getHierarchy())));
+            this.setCache(cacheKey, tree);
+            this.cacheIndex.addTree(cacheKey, tree);
+            await this.cacheRollups(tree);
+        }
+        if (pending) {
+            tree = await this.getPendingView(cacheKey, tree, team, rootTypes);
+        }
 
-        // Check cache for each parent
-        for (const parentId of parentIds) {
-            const cached = this.getCached<WorkItem[]>(`children_${parentId}`);
-            if (cached) {
-                results.set(parentId, cached);
-            } else {
-                uncachedParents.push(parentId);
-            }
+        if (!hasFilters(filters)) return tree;
+        const filtered = tree.filter(filters!);
+        if (!pending) this.setCache(filteredKey, filtered);
+        return filtered;
+    }
+
+    /**
+     * Items in a team's area below the top backlog level that its tree doesn't reach. Only the
+     * items the tree misses are queried beneath, and they are cached under the tree's key, so
+     * they are dropped along with it.
+     */
+    async getUnparentedTree(team: BacklogTeam, filters?: WorkItemFilters, token?: vscode.CancellationToken): Promise<BacklogTree> {
+        if (!this.connection) return new BacklogTree([], () => []);
+
+        const hierarchy = await this.getHierarchy();
+        const topLevel = getTreeLevels(hierarchy)[0];
+        const lowerTypes = getLowerLevelTypes(hierarchy);
+        if (!topLevel || lowerTypes.length === 0) return new BacklogTree([], () => []);
+
+        const tree = await this.getBacklogTree(team, topLevel.workItemTypes, undefined, token);
+        const cacheKey = `tree_${team.key}_${topLevel.workItemTypes.join(',')}_unparented`;
+        let candidates = this.getCached<BacklogTree>(cacheKey);
+        if (!candidates) {
+            const reached = new Set(tree.getAll().map(item => item.id!));
+            const loaded = this.canUseStore()
+                ? this.getStoredBacklogTree(team, lowerTypes)
+                : await this.queryBacklogTree(team, lowerTypes, token, reached);
+            candidates = loaded.excluding(tree).sorted(byBacklogOrder(getOrderField(hierarchy)));
+            this.setCache(cacheKey, candidates);
+            this.cacheIndex.addTree(cacheKey, candidates);
+            await this.cacheRollups(candidates);
         }
 
-        if (uncachedParents.length === 0) {
-            return results;
+        // Queued edits can move a candidate into the tree
+        const orphans = candidates.excluding(tree);
+        return hasFilters(filters) ? orphans.filter(filters!) : orphans;
+    }
+
+    /** A loaded backlog tree as it looks once the queued edits are sent, with its rollups cached. */
+    private async getPendingView(cacheKey: string, tree: BacklogTree, team: BacklogTeam, rootTypes: string[]): Promise<BacklogTree> {
+        const cached = this.pendingViews.get(cacheKey);
+        if (cached?.base === tree) return cached.view;
+        // Queued rank changes move items, so the view is put in order again
+        const view = withPendingEdits(tree, this.outbox.getEdits(), item =>
+            rootTypes.includes(item.fields?.['System.WorkItemType'])
+            && isInTeamScope(team, item.fields?.['System.AreaPath'] || '')
+        ).sorted(byBacklogOrder(getOrderField(await this.getHierarchy())));
+        this.pendingViews.set(cacheKey, { base: tree, view });
+        await this.cacheRollups(view);
+        return view;
+    }
+
+    private getStoredBacklogTree(team: BacklogTeam, rootTypes: string[]): BacklogTree {
+        const store = this.store!;
+        const roots = store.getItems()
+            .filter(item => rootTypes.includes(item.fields?.['System.WorkItemType'])
+                && isInTeamScope(team, item.fields?.['System.AreaPath'] || ''));
+        return new BacklogTree(roots, id => store.getChildren(id));
+    }
+
+    /**
+     * The team's top-level items, then recursive link queries beneath them (one per 200 roots),
+     * then the items themselves in batches. Roots in `skipIds` are left out along with their subtrees.
+     */
+    private async queryBacklogTree(team: BacklogTeam, rootTypes: string[], token?: vscode.CancellationToken, skipIds?: Set<number>): Promise<BacklogTree> {
+        const connection = this.getConnection(token);
+        if (!connection || team.areas.length === 0 || rootTypes.length === 0) return new BacklogTree([], () => []);
+
+        const hierarchy = await this.getHierarchy();
+        const treeTypes = getTreeLevels(hierarchy).flatMap(level => level.workItemTypes);
+        const typeList = (types: string[]) => types.map(t => `'${this.escapeWiql(t)}'`).join(', ');
+        const teamContext = { project: this.config.project };
+
+        // Match the team's own scope: areas without "include sub areas" are matched exactly
+        const areaConditions = team.areas.map(area =>
+            `[System.AreaPath] ${area.includeChildren ? 'UNDER' : '='} '${this.escapeWiql(area.path)}'`
+        ).join(' OR ');
+
+        const witApi = await connection.getWorkItemTrackingApi();
+        const rootIds = (await queryWorkItemIds(witApi, `[System.TeamProject] = @project
+            AND [System.WorkItemType] IN (${typeList(rootTypes)})
+            AND (${areaConditions})`, teamContext)).filter(id => !skipIds?.has(id));
+
+        // Top-level items come back without a source
+        const links = await queryLinkTree(witApi, rootIds, ids => `SELECT [System.Id] FROM WorkItemLinks
+            WHERE ([Source].[System.Id] IN (${ids.join(', ')}))
+            AND ([System.Links.LinkType] = 'System.LinkTypes.Hierarchy-Forward')
+            AND ([Target].[System.WorkItemType] IN (${typeList(treeTypes.length > 0 ? treeTypes : rootTypes)}))
+            MODE (Recursive)`, teamContext);
+        const ids = [...new Set(links.map(link => link.target))];
+        const items = await this.fetchWorkItems(ids, this.getWorkItemFields(), token);
+
+        return BacklogTree.fromLinks(items, links);
+    }
+
+    /** Caches the remaining work rollups of every item in the tree, so showing them needs no extra query. */
+    private async cacheRollups(tree: BacklogTree): Promise<void> {
+        const hierarchy = await this.getHierarchy();
+        const taskTypes = hierarchy.taskLevel?.workItemTypes || [];
+        const remainingField = hierarchy.fields.RemainingWork;
+        if (taskTypes.length === 0 || !remainingField || !this.getWorkItemFields().includes(remainingField)) return;
+
+        const remainingOf = (item: WorkItem) => taskTypes.includes(item.fields?.['System.WorkItemType'])
+            ? Number(item.fields?.[remainingField]) || 0
+            : undefined;
+        for (const item of tree.getAll()) {
+            if (remainingOf(item) === undefined) {
+                this.setCache(`rollup_${item.id}`, tree.rollup(item.id!, remainingOf));
+            }
         }
+    }
 
-        // Fetch all uncached children in parallel
-        const promises = uncachedParents.map(parentId =>
-            this.getChildWorkItems(parentId).then(children => ({
-                parentId,
-                children
-            }))
-        );
+    /**
+     * Remaining work summed over all tasks beneath each of the given items.
+     * Items in a loaded backlog tree have theirs cached already; for others one
+     * recursive link query covers the whole subtree, so rollups for the items in
+     * between are cached along the way.
+     */
+    async getRemainingWorkRollups(ids: number[], token?: vscode.CancellationToken): Promise<Map<number, number>> {
+        const results = new Map<number, number>();
+        const connection = this.getConnection(token);
+        if (!connection) return results;
+
+        const uncached = ids.filter(id => {
+            const cached = this.getCached<number>(`rollup_${id}`);
+            if (cached !== null) {
+                results.set(id, cached);
+                return false;
+            }
+            return true;
+        });
+        if (uncached.length === 0) return results;
+
+        const hierarchy = await this.getHierarchy();
+        const taskTypes = hierarchy.taskLevel?.workItemTypes || [];
+        const remainingField = hierarchy.fields.RemainingWork;
+        if (taskTypes.length === 0 || !remainingField) return results;
+
+        const witApi = await connection.getWorkItemTrackingApi();
+        const links = await queryLinkTree(witApi, uncached, ids => `SELECT [System.Id] FROM WorkItemLinks
+            WHERE ([Source].[System.Id] IN (${ids.join(', ')}))
+            AND ([System.Links.LinkType] = 'System.LinkTypes.Hierarchy-Forward')
+            MODE (Recursive)`, { project: this.config.project });
+
+        const childrenOf = new Map<number, number[]>();
+        for (const { source, target } of links) {
+            if (source === undefined) continue;
+            childrenOf.set(source, [...(childrenOf.get(source) || []), target]);
+            this.cacheIndex.addLink(source, target);
+        }
 
-        const batchResults = await Promise.all(promises);
-        for (const { parentId, children } of batchResults) {
-            results.set(parentId, children);
+        // Only tasks carry remaining work
+        const descendantIds = [...new Set([...childrenOf.values()].flat())];
+        const taskRemaining = new Map<number, number>();
+        for (const item of await this.fetchWorkItems(descendantIds, ['System.WorkItemType', remainingField], token)) {
+            if (item.id !== undefined && taskTypes.includes(item.fields?.['System.WorkItemType'])) {
+                taskRemaining.set(item.id, Number(item.fields?.[remainingField]) || 0);
+            }
         }
 
+        const rollups = new Map<number, number>();
+        const rollup = (id: number, visiting: Set<number>): number => {
+            if (taskRemaining.has(id)) return taskRemaining.get(id)!;
+            if (rollups.has(id)) return rollups.get(id)!;
+            if (visiting.has(id)) return 0;
+            visiting.add(id);
+            const total = (childrenOf.get(id) || []).reduce((sum, childId) => sum + rollup(childId, visiting), 0);
+            visiting.delete(id);
+            rollups.set(id, total);
+            return total;
+        };
+        for (const id of [...uncached, ...childrenOf.keys()]) {
+            if (taskRemaining.has(id)) continue;
+            const total = rollup(id, new Set());
+            this.setCache(`rollup_${id}`, total);
+            if (uncached.includes(id)) {
+                results.set(id, total);
+            }
+        }
         return results;
     }
 
@@ -329,7 +827,7 @@ export class AdoService {
                 return states;
             }
         } catch (error) {
-            console.error('Error fetching states:', error);
+            log.error(`Error fetching states for ${workItemType}`, error);
         }
 
         // Fallback to common states
@@ -338,12 +836,7 @@ export class AdoService {
         return fallbackStates;
     }
 
-    async getWorkItemTypeFields(workItemType: string): Promise<{
-        referenceName: string;
-        name: string;
-        alwaysRequired: boolean;
-        allowedValues: string[];
-    }[]> {
+    async getWorkItemTypeFields(workItemType: string): Promise<WorkItemTypeField[]> {
         if (!this.connection) { return []; }
 
         const cacheKey = `witFields_${workItemType}`;
@@ -365,28 +858,32 @@ export class AdoService {
             this.setCache(cacheKey, result);
             return result;
         } catch (error) {
-            console.error(`Error fetching fields for ${workItemType}:`, error);
+            log.error(`Error fetching fields for ${workItemType}`, error);
             return [];
         }
     }
 
-    private async preFetchChildren(parentIds: number[]): Promise<void> {
-        // Pre-fetch children in background (don't await)
-        setTimeout(async () => {
-            try {
-                await this.getBatchChildWorkItems(parentIds);
-            } catch (error) {
-                // Silently fail - this is just optimization
-            }
-        }, 500); // Small delay to not block main operation
-    }
-
-    async updateWorkItem(workItemId: number, fields: { [key: string]: any }): Promise<void> {
+    /**
+     * Saves field changes. With `expectedRev` the patch starts with a `test` of the revision, so
+     * the save is rejected instead of overwriting changes made since that revision was loaded.
+     * While offline the changes are queued, and the item is returned as it will be once they are sent.
+     */
+    async updateWorkItem(workItemId: number, fields: { [key: string]: any }, expectedRev?: number): Promise<WorkItem> {
         if (!this.connection) throw new Error('Not connected to Azure DevOps');
+        const edit: PendingEdit = { kind: 'update', workItemId, fields, expectedRev };
+        const sent = await this.sendOrQueue(edit);
+        if (!sent) return this.getPendingWorkItem(workItemId);
+        await this.refreshAfter([getChange(edit)]);
+        return sent.result as WorkItem;
+    }
 
-        const witApi = await this.connection.getWorkItemTrackingApi();
+    private async sendUpdate(workItemId: number, fields: { [key: string]: any }, expectedRev?: number): Promise<WorkItem> {
+        const witApi = await this.connection!.getWorkItemTrackingApi();
 
         const patchDocument: any[] = [];
+        if (expectedRev !== undefined) {
+            patchDocument.push({ op: 'test', path: '/rev', value: expectedRev });
+        }
         for (const fieldName of Object.keys(fields)) {
             const value = fields[fieldName];
             if (value === null || value === undefined) {
@@ -404,41 +901,118 @@ export class AdoService {
             }
         }
 
-        await witApi.updateWorkItem(
+        return witApi.updateWorkItem(
             undefined,
             patchDocument,
             workItemId,
             this.config.project
         );
-
-        // Invalidate cache for this work item's parent
-        this.invalidateWorkItemCache(workItemId);
     }
 
     async deleteWorkItem(workItemId: number): Promise<void> {
         if (!this.connection) throw new Error('Not connected to Azure DevOps');
+        await this.sendDelete(workItemId);
+        // Invalidate cache for this work item's parent
+        await this.refreshAfter([{ workItemId }]);
+    }
 
-        const witApi = await this.connection.getWorkItemTrackingApi();
-
+    private async sendDelete(workItemId: number): Promise<void> {
+        const witApi = await this.connection!.getWorkItemTrackingApi();
         await witApi.deleteWorkItem(workItemId, this.config.project);
+    }
 
-        // Invalidate cache for this work item's parent
-        this.invalidateWorkItemCache(workItemId);
+    /** Saves field changes to many work items, queueing them like single saves while offline. */
+    updateWorkItems(updates: WorkItemUpdate[], onProgress?: (done: number, total: number) => void): Promise<BulkResult[]> {
+        return this.runBulk(updates.map(update => update.workItemId), async (workItemId, index) => {
+            const edit: PendingEdit = { kind: 'update', workItemId, fields: updates[index].fields };
+            return await this.sendOrQueue(edit) ? [getChange(edit)] : [];
+        }, onProgress);
+    }
+
+    /** Moves many work items under a new parent, queueing the moves like drag and drop while offline. */
+    moveWorkItems(workItemIds: number[], parentId: number, onProgress?: (done: number, total: number) => void): Promise<BulkResult[]> {
+        return this.runBulk(workItemIds, async workItemId => {
+            const changes: WorkItemChange[] = [];
+            for (const edit of [{ kind: 'removeParent', workItemId }, { kind: 'addParent', workItemId, parentId }] as PendingEdit[]) {
+                if (await this.sendOrQueue(edit)) changes.push(getChange(edit));
+            }
+            return changes;
+        }, onProgress);
     }
 
-    invalidateWorkItemCache(workItemId: number): void {
-        // Remove specific work item cache and its children
-        this.cache.delete(`children_${workItemId}`);
+    deleteWorkItems(workItemIds: number[], onProgress?: (done: number, total: number) => void): Promise<BulkResult[]> {
+        return this.runBulk(workItemIds, async workItemId => {
+            await this.sendDelete(workItemId);
+            return [{ workItemId }];
+        }, onProgress);
+    }
 
-        // Also invalidate any parent caches (less granular but ensures consistency)
-        // Could be improved by tracking parent relationships
-        const keysToDelete: string[] = [];
-        this.cache.forEach((_, key) => {
-            if (key.startsWith('children_') || key.startsWith('epics_')) {
-                keysToDelete.push(key);
+    /**
+     * Runs an edit over many work items, a few requests at a time, then refreshes the cache and
+     * the tree once for all of them. A failure is reported in the item's result and doesn't stop the rest.
+     */
+    private async runBulk(
+        workItemIds: number[],
+        edit: (workItemId: number, index: number) => Promise<WorkItemChange[]>,
+        onProgress?: (done: number, total: number) => void
+    ): Promise<BulkResult[]> {
+        if (!this.connection) throw new Error('Not connected to Azure DevOps');
+        const changes: WorkItemChange[] = [];
+        let done = 0;
+        const results = await mapConcurrent(workItemIds, DEFAULT_CONCURRENCY, async (workItemId, index): Promise<BulkResult> => {
+            try {
+                changes.push(...await edit(workItemId, index));
+                return { workItemId };
+            } catch (error) {
+                // A move can fail halfway, so reload the item either way
+                changes.push({ workItemId });
+                return { workItemId, error };
+            } finally {
+                onProgress?.(++done, workItemIds.length);
             }
         });
+        log.info(`Bulk edit of ${workItemIds.length} work items: ${results.filter(r => r.error === undefined).length} succeeded`);
+        await this.refreshAfter(changes);
+        return results;
+    }
+
+    /** Refreshes the stored copies of changed work items, then drops the cached data the changes affect. */
+    private async refreshAfter(changes: WorkItemChange[]): Promise<void> {
+        if (changes.length === 0) return;
+        await this.refreshStoredItems([...new Set(changes.map(change => change.workItemId))]);
+        this.invalidateWorkItems(changes);
+    }
+
+    /**
+     * Drops the cached data a change to one work item affects: the backlog trees holding it or
+     * its parents, old and new, and the rollups of everything above it. Items the index doesn't
+     * know yet, and changes that can move an item to another team, drop every tree.
+     */
+    invalidateWorkItemCache(workItemId: number, options: { newParentId?: number; scopeChanged?: boolean } = {}): void {
+        this.invalidateWorkItems([{ workItemId, ...options }]);
+    }
+
+    /** `invalidateWorkItemCache` for several changes at once, redrawing the tree once. */
+    private invalidateWorkItems(changes: WorkItemChange[]): void {
+        const changed = changes.flatMap(change => [
+            change.workItemId,
+            ...this.cacheIndex.getParents(change.workItemId),
+            ...change.newParentId !== undefined ? [change.newParentId] : []
+        ]);
+        const affected = [...new Set([...changed, ...this.cacheIndex.getAncestors(changed)])];
+
+        const everything = changes.some(change =>
+            change.scopeChanged || !this.cacheIndex.has(change.workItemId) && change.newParentId === undefined
+        );
+        const treeKeys = everything
+            ? [...this.cache.keys()].filter(key => key.startsWith('tree_'))
+            : this.cacheIndex.getKeys(affected);
+        // Filtered trees are cached under the full tree's key followed by the filters
+        const keysToDelete = [...this.cache.keys()].filter(key => treeKeys.some(treeKey => key === treeKey || key.startsWith(`${treeKey}_`)));
         keysToDelete.forEach(key => this.cache.delete(key));
+        affected.forEach(id => this.cache.delete(`rollup_${id}`));
+
+        this._onDidChangeWorkItems.fire(everything ? undefined : affected);
     }
 
     async createWorkItem(
@@ -463,7 +1037,7 @@ export class AdoService {
                 path: '/relations/-',
                 value: {
                     rel: 'System.LinkTypes.Hierarchy-Reverse',
-                    url: `${this.config.organizationUrl}/${this.config.project}/_apis/wit/workItems/${parentId}`,
+                    url: getWorkItemApiUrl(this.config, parentId),
                     attributes: { comment: 'Parent work item' }
                 }
             });
@@ -477,15 +1051,21 @@ export class AdoService {
         );
 
         // Invalidate cache so the new item shows up in the tree
-        this.invalidateWorkItemCache(newWorkItem!.id!);
+        await this.refreshAfter([{ workItemId: newWorkItem!.id!, newParentId: parentId, scopeChanged: !parentId }]);
 
         return newWorkItem!;
     }
 
     async removeParentLink(workItemId: number): Promise<void> {
         if (!this.connection) throw new Error('Not connected to Azure DevOps');
+        const edit: PendingEdit = { kind: 'removeParent', workItemId };
+        if (await this.sendOrQueue(edit)) {
+            await this.refreshAfter([getChange(edit)]);
+        }
+    }
 
-        const witApi = await this.connection.getWorkItemTrackingApi();
+    private async sendRemoveParent(workItemId: number): Promise<void> {
+        const witApi = await this.connection!.getWorkItemTrackingApi();
 
         // Get current work item with relations to find parent link
         const workItem = await witApi.getWorkItem(workItemId, undefined, undefined, WorkItemExpand.Relations);
@@ -510,22 +1090,25 @@ export class AdoService {
                 );
             }
         }
-
-        // Invalidate cache after removing parent link
-        this.invalidateWorkItemCache(workItemId);
     }
 
     async addParentLink(workItemId: number, parentId: number): Promise<void> {
         if (!this.connection) throw new Error('Not connected to Azure DevOps');
+        const edit: PendingEdit = { kind: 'addParent', workItemId, parentId };
+        if (await this.sendOrQueue(edit)) {
+            await this.refreshAfter([getChange(edit)]);
+        }
+    }
 
-        const witApi = await this.connection.getWorkItemTrackingApi();
+    private async sendAddParent(workItemId: number, parentId: number): Promise<void> {
+        const witApi = await this.connection!.getWorkItemTrackingApi();
 
         const patchDocument = [{
             op: 'add',
             path: '/relations/-',
             value: {
                 rel: 'System.LinkTypes.Hierarchy-Reverse',
-                url: `${this.config.organizationUrl}/${this.config.project}/_apis/wit/workItems/${parentId}`,
+                url: getWorkItemApiUrl(this.config, parentId),
                 attributes: { comment: 'Reparented via drag and drop' }
             }
         }];
@@ -536,22 +1119,133 @@ export class AdoService {
             workItemId,
             this.config.project
         );
+    }
 
-        // Invalidate cache after adding parent link
-        this.invalidateWorkItemCache(workItemId);
+    /**
+     * Sends an edit, or queues it when Azure DevOps can't be reached. Edits of an item that
+     * already has some queued are queued behind them, so they arrive in the order they were made.
+     * Resolves to what Azure DevOps returned, or undefined when queued; callers refresh the cache for sent edits.
+     */
+    private async sendOrQueue(edit: PendingEdit): Promise<{ result: WorkItem | void } | undefined> {
+        if (!this.outbox.hasPending(edit.workItemId)) {
+            try {
+                return { result: await this.sendEdit(edit) };
+            } catch (error) {
+                if (!isOffline(error)) throw error;
+                log.warn(`Azure DevOps can't be reached, queueing the edit of #${edit.workItemId}: ${describeError(error)}`);
+            }
+        }
+        await this.outbox.add(edit);
+        // Without a parent the item may become a root on any team
+        const change = getChange(edit);
+        this.showOutboxChange(change.scopeChanged || edit.kind === 'removeParent'
+            ? undefined
+            : [edit.workItemId, ...change.newParentId !== undefined ? [change.newParentId] : []]);
+        this.scheduleFlush();
+        return undefined;
+    }
+
+    private sendEdit(edit: PendingEdit): Promise<WorkItem | void> {
+        switch (edit.kind) {
+            case 'update': return this.sendUpdate(edit.workItemId, edit.fields, edit.expectedRev);
+            case 'removeParent': return this.sendRemoveParent(edit.workItemId);
+            case 'addParent': return this.sendAddParent(edit.workItemId, edit.parentId);
+        }
+    }
+
+    /** A work item as last loaded, with its queued field changes applied. */
+    private getPendingWorkItem(workItemId: number): WorkItem {
+        const trees = [...this.cache.values()].map(entry => entry.data).filter(data => data instanceof BacklogTree) as BacklogTree[];
+        const loaded = this.store?.get(workItemId)
+            || trees.flatMap(tree => tree.getAll()).find(item => item.id === workItemId)
+            || { id: workItemId, fields: {} };
+        return this.outbox.getEdits().reduce((item, edit) =>
+            edit.kind === 'update' && edit.workItemId === workItemId ? applyFields(item, edit.fields) : item, loaded);
+    }
+
+    getOutboxState(): OutboxState {
+        return { pending: this.outbox.getPendingIds(), conflicts: this.outbox.getConflicts() };
+    }
+
+    /**
+     * Redraws what a change to the queued edits affects: the given work items and everything
+     * above them, or the whole tree for `undefined`, e.g. when an item may have moved team.
+     */
+    private showOutboxChange(workItemIds: number[] | undefined): void {
+        this.pendingViews.clear();
+        const changed = workItemIds && [...workItemIds, ...workItemIds.flatMap(id => this.cacheIndex.getParents(id))];
+        const affected = changed && [...new Set([...changed, ...this.cacheIndex.getAncestors(changed)])];
+        for (const key of [...this.cache.keys()].filter(key => key.startsWith('rollup_'))) {
+            if (!affected || affected.includes(Number(key.slice('rollup_'.length)))) this.cache.delete(key);
+        }
+        this._onDidChangeWorkItems.fire(affected);
+        this._onDidChangeOutbox.fire(this.getOutboxState());
+    }
+
+    /** Tries to send the queued edits again after a while, e.g. once the VPN is back. */
+    private scheduleFlush(delay = OUTBOX_RETRY_INTERVAL): void {
+        if (this.flushTimer || this.outbox.getEdits().length === 0) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined;
+            this.sendPendingEdits();
+        }, delay);
     }
 
-    async getAllTeamMembers(): Promise<{displayName: string, uniqueName: string, id: string}[]> {
+    /** Sends the edits queued while offline, in the order they were made. Concurrent calls share one run. */
+    sendPendingEdits(): Promise<void> {
+        if (!this.flushing) {
+            this.flushing = this.runFlush().finally(() => {
+                this.flushing = undefined;
+            });
+        }
+        return this.flushing;
+    }
+
+    private async runFlush(): Promise<void> {
+        await this.ready;
+        const outbox = this.outbox;
+        if (!this.connection || outbox.getEdits().length === 0) return;
+
+        const sent: WorkItemChange[] = [];
+        const result = await outbox.flush(async edit => {
+            await this.sendEdit(edit);
+            sent.push(getChange(edit));
+        });
+        if (result.sent > 0) {
+            log.info(`Sent ${result.sent} edits made while offline`);
+        }
+        await this.refreshAfter(sent);
+        for (const conflict of result.conflicts) {
+            log.warn(`Azure DevOps rejected the offline edits of #${conflict.workItemId}: ${conflict.message}`);
+        }
+        if (result.stoppedBy) {
+            log.info(`Pending edits will be sent later: ${describeError(result.stoppedBy)}`);
+            this.scheduleFlush();
+        }
+        if (outbox !== this.outbox) return;
+        // Rejected edits no longer show, so reload what they were shown on
+        if (result.conflicts.length > 0) {
+            this.clearCache();
+        }
+        this.showOutboxChange(result.conflicts.length > 0 ? undefined : []);
+    }
+
+    async discardPendingEdits(workItemId: number): Promise<void> {
+        await this.outbox.discard(workItemId);
+        log.info(`Discarded the offline edits of #${workItemId}`);
+        this.showOutboxChange(undefined);
+    }
+
+    async getAllTeamMembers(): Promise<TeamMember[]> {
         const cacheKey = 'allTeamMembers';
-        const cached = this.getCached<{displayName: string, uniqueName: string, id: string}[]>(cacheKey);
+        const cached = this.getCached<TeamMember[]>(cacheKey);
         if (cached) return cached;
 
-        const seen = new Map<string, {displayName: string, uniqueName: string, id: string}>();
+        const seen = new Map<string, TeamMember>();
 
-        for (const areaPath of this.config.areaPaths || []) {
-            const teamName = areaPath.split('\\').pop() || areaPath;
+        for (const team of await this.getTeams().catch(() => [])) {
             try {
-                const members = await this.getTeamMembers(teamName);
+                const members = await this.getTeamMembers(team);
                 for (const m of members) {
                     if (m.uniqueName && !seen.has(m.uniqueName)) {
                         seen.set(m.uniqueName, m);
@@ -567,23 +1261,26 @@ export class AdoService {
         return result;
     }
 
-    async getTeamMembers(teamName: string): Promise<any[]> {
+    async getTeamMembers(team: BacklogTeam): Promise<TeamMember[]> {
         if (!this.connection) return [];
 
         try {
             const coreApi = await this.connection.getCoreApi();
-            const teams = await coreApi.getTeams(this.config.project);
 
-            // Find team by name (matching the last segment of area path)
-            const team = teams.find(t => t.name === teamName);
-            if (!team) {
+            // Manual area path entries have no team; fall back to a team with the same name
+            let teamId = team.id;
+            if (!teamId) {
+                const teams = await coreApi.getTeams(this.config.project);
+                teamId = teams.find(t => t.name === team.name)?.id;
+            }
+            if (!teamId) {
                 return [];
             }
 
             // Get team members
             const members = await coreApi.getTeamMembersWithExtendedProperties(
                 this.config.project,
-                team.id!
+                teamId
             );
 
             return members.map(member => ({
@@ -592,7 +1289,7 @@ export class AdoService {
                 id: member.identity?.id || ''
             }));
         } catch (error) {
-            console.error('Error fetching team members:', error);
+            log.error('Error fetching team members', error);
             return [];
         }
     }
@@ -0,0 +1,47 @@
+/** One finished client library call, e.g. `WorkItemTrackingApi.getWorkItemsBatch`. */
+export interface ApiCall {
+    /** Client the method belongs to, e.g. `WorkItemTrackingApi` or `WebApi`. */
+    api: string;
+    method: string;
+    args: any[];
+    durationMs: number;
+    result?: any;
+    /** Set when the call failed. */
+    error?: any;
+}
+
+/** Nested clients whose calls are observed too, such as `vsoClient` for location lookups. */
+export function isNestedClient(property: string): boolean {
+    return /Client$/.test(property);
+}
+
+/**
+ * Wraps an API client so `observer` hears about every method call once it settles. Methods
+ * returning another client, such as `WebApi.getWorkItemTrackingApi`, hand back an observed client as well.
+ */
+export function observeApiCalls<T extends object>(api: T, observer: (call: ApiCall) => void, name = 'WebApi'): T {
+    return new Proxy(api, {
+        get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+            if (typeof property !== 'string') return value;
+            if (value && typeof value === 'object' && isNestedClient(property)) {
+                return observeApiCalls(value, observer, `${name}.${property}`);
+            }
+            if (typeof value !== 'function') return value;
+            if (/^get\w*Api$/.test(property)) {
+                return async (...args: any[]) => observeApiCalls(await value.apply(target, args), observer, property.slice(3));
+            }
+            return async (...args: any[]) => {
+                const started = Date.now();
+                try {
+                    const result = await value.apply(target, args);
+                    observer({ api: name, method: property, args, durationMs: Date.now() - started, result });
+                    return result;
+                } catch (error) {
+                    observer({ api: name, method: property, args, durationMs: Date.now() - started, error: error ?? new Error('Unknown error') });
+                    throw error;
+                }
+            };
+        }
+    });
+}
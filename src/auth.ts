@@ -0,0 +1,406 @@
+import * as vscode from 'vscode';
+import * as azdev from 'azure-devops-node-api';
+import { execFile } from 'child_process';
+import { IRequestHandler } from 'azure-devops-node-api/interfaces/common/VsoBaseInterfaces';
+import { ConnectionProfile, DEFAULT_PROFILE_NAME } from './profiles';
+
+/** SecretStorage key holding the Personal Access Token of the default profile. */
+export const PAT_SECRET_KEY = 'adoBacklog.personalAccessToken';
+
+/** SecretStorage key holding the username and password of the default profile. */
+export const CREDENTIALS_SECRET_KEY = 'adoBacklog.credentials';
+
+/** SecretStorage key holding the Personal Access Token for a profile. */
+export function getPatSecretKey(profileName: string): string {
+    return profileName === DEFAULT_PROFILE_NAME ? PAT_SECRET_KEY : `${PAT_SECRET_KEY}/${profileName}`;
+}
+
+/** SecretStorage key holding the username and password for a profile. */
+export function getCredentialsSecretKey(profileName: string): string {
+    return profileName === DEFAULT_PROFILE_NAME ? CREDENTIALS_SECRET_KEY : `${CREDENTIALS_SECRET_KEY}/${profileName}`;
+}
+
+/** Global state key remembering that the user signed out of a profile's bearer token source. */
+export function getSignedOutStateKey(profileName: string): string {
+    return `adoBacklog.signedOut/${profileName}`;
+}
+
+/** Well-known Entra ID application ID of Azure DevOps. */
+export const ADO_RESOURCE_ID = '499b84ac-1321-427f-aa17-267ca6975798';
+
+/** Bearer tokens are refreshed this long before they expire. */
+const REFRESH_MARGIN = 5 * 60 * 1000; // 5 minutes
+/** Floor for the refresh timer so short-lived tokens can't cause a refresh loop. */
+const MIN_REFRESH_DELAY = 30 * 1000;
+
+export type AuthMethod = 'pat' | 'microsoft' | 'azureCli' | 'ntlm' | 'basic';
+
+export interface AccessToken {
+    token: string;
+    /** Expiry as epoch milliseconds, when known. */
+    expiresOn?: number;
+}
+
+export interface AuthChangeEvent {
+    /** True when only the token was renewed; the signed-in identity is unchanged. */
+    refreshed: boolean;
+}
+
+/** Supplies credentials for the Azure DevOps connection. */
+export interface AuthStrategy extends vscode.Disposable {
+    readonly method: AuthMethod;
+    readonly onDidChange: vscode.Event<AuthChangeEvent>;
+    /** Returns a request handler for the current credential, or null when signed out. Never prompts. */
+    getHandler(): Promise<IRequestHandler | null>;
+    /** Interactively acquires a credential. Returns false if the user cancelled or it failed. */
+    signIn(): Promise<boolean>;
+    signOut(): Promise<void>;
+}
+
+/** Source of bearer tokens, e.g. the VS Code Microsoft account or the Azure CLI. */
+export interface TokenSource {
+    getToken(interactive: boolean): Promise<AccessToken | undefined>;
+    readonly onDidChange?: vscode.Event<void>;
+    dispose?(): void;
+}
+
+/**
+ * Moves a PAT left in plain-text settings into SecretStorage and wipes it from
+ * every settings scope it was written to. Returns true if anything was migrated.
+ */
+export async function migratePatSetting(secrets: vscode.SecretStorage): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration('adoBacklog');
+    const inspected = config.inspect<string>('personalAccessToken');
+    if (!inspected) { return false; }
+
+    const targets: { value?: string; target: vscode.ConfigurationTarget }[] = [
+        { value: inspected.workspaceValue, target: vscode.ConfigurationTarget.Workspace },
+        { value: inspected.globalValue, target: vscode.ConfigurationTarget.Global }
+    ];
+    const withValue = targets.filter(t => t.value);
+    if (withValue.length === 0) { return false; }
+
+    // Don't clobber a token the user already signed in with
+    const existing = await secrets.get(PAT_SECRET_KEY);
+    if (!existing) {
+        await secrets.store(PAT_SECRET_KEY, withValue[0].value!);
+    }
+
+    for (const t of withValue) {
+        await config.update('personalAccessToken', undefined, t.target);
+    }
+    return true;
+}
+
+export class PatAuthStrategy implements AuthStrategy {
+    readonly method: AuthMethod = 'pat';
+    private _onDidChange = new vscode.EventEmitter<AuthChangeEvent>();
+    readonly onDidChange: vscode.Event<AuthChangeEvent> = this._onDidChange.event;
+    private subscription: vscode.Disposable;
+
+    constructor(private readonly secrets: vscode.SecretStorage, private readonly secretKey = PAT_SECRET_KEY) {
+        this.subscription = secrets.onDidChange(e => {
+            if (e.key === this.secretKey) {
+                this._onDidChange.fire({ refreshed: false });
+            }
+        });
+    }
+
+    async getHandler(): Promise<IRequestHandler | null> {
+        const pat = await this.secrets.get(this.secretKey);
+        return pat ? azdev.getPersonalAccessTokenHandler(pat) : null;
+    }
+
+    async signIn(): Promise<boolean> {
+        const pat = await vscode.window.showInputBox({
+            title: 'Sign In to Azure DevOps',
+            prompt: 'Enter a Personal Access Token with Work Items (Read & Write) scope',
+            placeHolder: 'Personal Access Token',
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : 'Token cannot be empty'
+        });
+        if (!pat) { return false; }
+
+        await this.secrets.store(this.secretKey, pat.trim());
+        return true;
+    }
+
+    async signOut(): Promise<void> {
+        await this.secrets.delete(this.secretKey);
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChange.dispose();
+    }
+}
+
+/**
+ * Username/password authentication for Azure DevOps Server, either Windows
+ * integrated (NTLM) or Basic. Both values are kept together in SecretStorage.
+ */
+export class CredentialsAuthStrategy implements AuthStrategy {
+    private _onDidChange = new vscode.EventEmitter<AuthChangeEvent>();
+    readonly onDidChange: vscode.Event<AuthChangeEvent> = this._onDidChange.event;
+    private subscription: vscode.Disposable;
+
+    constructor(
+        readonly method: 'ntlm' | 'basic',
+        private readonly secrets: vscode.SecretStorage,
+        private readonly secretKey = CREDENTIALS_SECRET_KEY
+    ) {
+        this.subscription = secrets.onDidChange(e => {
+            if (e.key === this.secretKey) {
+                this._onDidChange.fire({ refreshed: false });
+            }
+        });
+    }
+
+    private async getCredentials(): Promise<{ username: string; password: string } | undefined> {
+        const stored = await this.secrets.get(this.secretKey);
+        if (!stored) { return undefined; }
+        try {
+            return JSON.parse(stored);
+        } catch {
+            return undefined;
+        }
+    }
+
+    async getHandler(): Promise<IRequestHandler | null> {
+        const credentials = await this.getCredentials();
+        if (!credentials) { return null; }
+
+        if (this.method === 'basic') {
+            return azdev.getBasicHandler(credentials.username, credentials.password);
+        }
+        // NTLM wants the domain separately: accept both DOMAIN\user and user@domain
+        const { username, domain } = splitDomainUser(credentials.username);
+        return azdev.getNtlmHandler(username, credentials.password, undefined, domain);
+    }
+
+    async signIn(): Promise<boolean> {
+        const previous = await this.getCredentials();
+        const username = await vscode.window.showInputBox({
+            title: 'Sign In to Azure DevOps Server',
+            prompt: this.method === 'ntlm' ? 'Windows account (DOMAIN\\user or user@domain)' : 'Username',
+            value: previous?.username,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? undefined : 'Username cannot be empty'
+        });
+        if (!username) { return false; }
+
+        const password = await vscode.window.showInputBox({
+            title: 'Sign In to Azure DevOps Server',
+            prompt: `Password for ${username.trim()}`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (password === undefined) { return false; }
+
+        await this.secrets.store(this.secretKey, JSON.stringify({ username: username.trim(), password }));
+        return true;
+    }
+
+    async signOut(): Promise<void> {
+        await this.secrets.delete(this.secretKey);
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChange.dispose();
+    }
+}
+
+export function splitDomainUser(account: string): { username: string; domain?: string } {
+    const backslash = account.indexOf('\\');
+    if (backslash > 0) {
+        return { domain: account.substring(0, backslash), username: account.substring(backslash + 1) };
+    }
+    const at = account.indexOf('@');
+    if (at > 0) {
+        return { username: account.substring(0, at), domain: account.substring(at + 1) };
+    }
+    return { username: account };
+}
+
+/**
+ * Wraps a TokenSource, caches its token and renews it shortly before expiry so
+ * the connection can be rebuilt before requests start failing.
+ */
+export class BearerAuthStrategy implements AuthStrategy {
+    private _onDidChange = new vscode.EventEmitter<AuthChangeEvent>();
+    readonly onDidChange: vscode.Event<AuthChangeEvent> = this._onDidChange.event;
+    private current: AccessToken | undefined;
+    private refreshTimer?: NodeJS.Timeout;
+    private signedOut: boolean;
+    private subscription?: vscode.Disposable;
+
+    /** Signing out is remembered in `state`, if given, so the token source stays ignored after a reload. */
+    constructor(
+        readonly method: AuthMethod,
+        private readonly source: TokenSource,
+        private readonly state?: vscode.Memento,
+        private readonly stateKey = getSignedOutStateKey(DEFAULT_PROFILE_NAME)
+    ) {
+        this.signedOut = state?.get<boolean>(stateKey, false) ?? false;
+        this.subscription = source.onDidChange?.(() => {
+            if (!this.signedOut) {
+                this.current = undefined;
+                this._onDidChange.fire({ refreshed: false });
+            }
+        });
+    }
+
+    async getHandler(): Promise<IRequestHandler | null> {
+        if (this.signedOut) { return null; }
+        if (!this.current || this.isExpiring(this.current)) {
+            this.setToken(await this.source.getToken(false).catch(() => undefined));
+        }
+        return this.current ? azdev.getBearerHandler(this.current.token) : null;
+    }
+
+    async signIn(): Promise<boolean> {
+        this.signedOut = false;
+        await this.state?.update(this.stateKey, undefined);
+        const token = await this.source.getToken(true);
+        this.setToken(token);
+        this._onDidChange.fire({ refreshed: false });
+        return !!token;
+    }
+
+    async signOut(): Promise<void> {
+        this.signedOut = true;
+        await this.state?.update(this.stateKey, true);
+        this.setToken(undefined);
+        this._onDidChange.fire({ refreshed: false });
+    }
+
+    private isExpiring(token: AccessToken): boolean {
+        return token.expiresOn !== undefined && token.expiresOn - Date.now() < REFRESH_MARGIN;
+    }
+
+    private setToken(token: AccessToken | undefined): void {
+        this.current = token;
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+        if (token?.expiresOn === undefined) { return; }
+
+        const delay = Math.max(token.expiresOn - REFRESH_MARGIN - Date.now(), MIN_REFRESH_DELAY);
+        this.refreshTimer = setTimeout(() => this.refresh(), delay);
+    }
+
+    private async refresh(): Promise<void> {
+        this.refreshTimer = undefined;
+        const token = await this.source.getToken(false).catch(() => undefined);
+        this.setToken(token);
+        // A failed refresh leaves us signed out; listeners rebuild the connection either way
+        this._onDidChange.fire({ refreshed: !!token });
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.subscription?.dispose();
+        this.source.dispose?.();
+        this._onDidChange.dispose();
+    }
+}
+
+/** Reads the `exp` claim from a JWT, returning epoch milliseconds. */
+export function getJwtExpiry(token: string): number | undefined {
+    const payload = token.split('.')[1];
+    if (!payload) { return undefined; }
+    try {
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        return typeof claims.exp === 'number' ? claims.exp * 1000 : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/** Tokens from the account signed in to VS Code via the built-in Microsoft authentication provider. */
+export class MicrosoftTokenSource implements TokenSource {
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+    private subscription: vscode.Disposable;
+
+    constructor(private readonly tenantId?: string) {
+        this.subscription = vscode.authentication.onDidChangeSessions(e => {
+            if (e.provider.id === 'microsoft') {
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    dispose(): void {
+        this.subscription.dispose();
+        this._onDidChange.dispose();
+    }
+
+    async getToken(interactive: boolean): Promise<AccessToken | undefined> {
+        const scopes = [`${ADO_RESOURCE_ID}/.default`];
+        if (this.tenantId) {
+            scopes.push(`VSCODE_TENANT:${this.tenantId}`);
+        }
+        const session = interactive
+            ? await vscode.authentication.getSession('microsoft', scopes, { createIfNone: true })
+            : await vscode.authentication.getSession('microsoft', scopes, { silent: true });
+        if (!session) { return undefined; }
+        return { token: session.accessToken, expiresOn: getJwtExpiry(session.accessToken) };
+    }
+}
+
+/** Tokens from a locally installed and logged-in Azure CLI (`az login`). */
+export class AzureCliTokenSource implements TokenSource {
+    constructor(private readonly tenantId?: string) { }
+
+    async getToken(interactive: boolean): Promise<AccessToken | undefined> {
+        const args = ['account', 'get-access-token', '--resource', ADO_RESOURCE_ID, '--output', 'json'];
+        if (this.tenantId) {
+            args.push('--tenant', this.tenantId);
+        }
+
+        let output: string;
+        try {
+            output = await new Promise<string>((resolve, reject) => {
+                // az is a .cmd script on Windows, which needs a shell to run
+                execFile('az', args, { shell: process.platform === 'win32', timeout: 30000 }, (error, stdout, stderr) => {
+                    if (error) {
+                        reject(new Error(stderr?.trim() || error.message));
+                    } else {
+                        resolve(stdout);
+                    }
+                });
+            });
+        } catch (error: any) {
+            if (interactive) {
+                throw new Error(`Azure CLI could not provide a token. Run "az login" and try again. (${error.message})`);
+            }
+            return undefined;
+        }
+
+        const result = JSON.parse(output);
+        // Newer CLI versions report epoch seconds; older ones only a local date string
+        const expiresOn = typeof result.expires_on === 'number'
+            ? result.expires_on * 1000
+            : getJwtExpiry(result.accessToken) ?? Date.parse(result.expiresOn);
+        return { token: result.accessToken, expiresOn: isNaN(expiresOn) ? undefined : expiresOn };
+    }
+}
+
+/** Creates the strategy for a profile's authentication method. */
+export function createAuthStrategy(profile: ConnectionProfile, secrets: vscode.SecretStorage, state?: vscode.Memento): AuthStrategy {
+    const signedOutKey = getSignedOutStateKey(profile.name);
+    switch (profile.authenticationMethod) {
+        case 'microsoft': return new BearerAuthStrategy(profile.authenticationMethod, new MicrosoftTokenSource(profile.tenantId), state, signedOutKey);
+        case 'azureCli': return new BearerAuthStrategy(profile.authenticationMethod, new AzureCliTokenSource(profile.tenantId), state, signedOutKey);
+        case 'ntlm':
+        case 'basic':
+            return new CredentialsAuthStrategy(profile.authenticationMethod, secrets, getCredentialsSecretKey(profile.name));
+        default: return new PatAuthStrategy(secrets, getPatSecretKey(profile.name));
+    }
+}
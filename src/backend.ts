@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { BacklogTeam } from './teams';
+import { BacklogHierarchy } from './hierarchy';
+import { BacklogTree, WorkItemFilters } from './backlogTree';
+import { ConnectionProfile } from './profiles';
+import { ConnectionTestStage } from './connection';
+import { OutboxConflict } from './outbox';
+
+/** Progress of the background sync of the on-disk cache. */
+export interface SyncState {
+    syncing: boolean;
+    /** True while the tree shows data loaded from disk that hasn't been synced yet. */
+    stale: boolean;
+    error?: string;
+}
+
+/** Work items loaded so far out of those requested. */
+export interface FetchProgress {
+    loaded: number;
+    total: number;
+}
+
+/** Azure DevOps is rate limiting requests and the service is waiting to retry. */
+export interface ThrottleState {
+    /** Rate-limited resource, e.g. `Core`, when the server names it. */
+    resource?: string;
+    retryAt: number;
+}
+
+/** Edits made while Azure DevOps couldn't be reached. */
+export interface OutboxState {
+    /** Work items with edits waiting to be sent. */
+    pending: number[];
+    /** Work items whose edits Azure DevOps rejected once they were sent. */
+    conflicts: OutboxConflict[];
+}
+
+/** Field changes for one work item in a bulk edit. */
+export interface WorkItemUpdate {
+    workItemId: number;
+    fields: { [key: string]: any };
+}
+
+/** How one work item in a bulk edit fared; `error` is set if it failed. */
+export interface BulkResult {
+    workItemId: number;
+    error?: unknown;
+}
+
+export interface TeamMember {
+    displayName: string;
+    uniqueName: string;
+    id: string;
+}
+
+export interface WorkItemTypeField {
+    referenceName: string;
+    name: string;
+    alwaysRequired: boolean;
+    allowedValues: string[];
+}
+
+/**
+ * Everything the tree and the panels need from where the backlog lives. `AdoService` talks
+ * to Azure DevOps; `FakeBacklogBackend` keeps a sample backlog in memory for demos and tests.
+ */
+export interface BacklogBackend {
+    readonly onDidChangeConnection: vscode.Event<void>;
+    readonly onDidChangeSyncState: vscode.Event<SyncState>;
+    /** Fires when a sync brought changes the tree should show. */
+    readonly onDidSync: vscode.Event<void>;
+    /** Fires as large sets of work items load; `undefined` once nothing is loading. */
+    readonly onDidChangeFetchProgress: vscode.Event<FetchProgress | undefined>;
+    readonly onDidChangeThrottling: vscode.Event<ThrottleState | undefined>;
+    /** Fires after a change with the work items whose tree nodes are stale; `undefined` when any might be. */
+    readonly onDidChangeWorkItems: vscode.Event<number[] | undefined>;
+    /** Fires when edits are queued while offline, sent, or rejected. */
+    readonly onDidChangeOutbox: vscode.Event<OutboxState>;
+
+    /** Resolves once the latest settings and stored credentials have been loaded. */
+    whenReady(): Promise<void>;
+    /** True when organization URL and project are set, regardless of sign-in. */
+    hasConnectionSettings(): boolean;
+    isSignedIn(): boolean;
+    isConfigured(): boolean;
+    /** The profile the backend is currently connected with. */
+    getProfile(): ConnectionProfile;
+    signIn(): Promise<boolean>;
+    signOut(): Promise<void>;
+    testConnection(): Promise<ConnectionTestStage[]>;
+
+    sync(): Promise<void>;
+    getSyncState(): SyncState;
+    clearCache(): void;
+    invalidateWorkItemCache(workItemId: number, options?: { newParentId?: number; scopeChanged?: boolean }): void;
+
+    getTeams(): Promise<BacklogTeam[]>;
+    getTeamMembers(team: BacklogTeam): Promise<TeamMember[]>;
+    getAllTeamMembers(): Promise<TeamMember[]>;
+    getHierarchy(): Promise<BacklogHierarchy>;
+    getAvailableStates(workItemType: string, currentState: string): Promise<string[]>;
+    getWorkItemTypeFields(workItemType: string): Promise<WorkItemTypeField[]>;
+
+    getWorkItem(id: number): Promise<WorkItem | null>;
+    getBacklogTree(team: BacklogTeam, rootTypes: string[], filters?: WorkItemFilters, token?: vscode.CancellationToken): Promise<BacklogTree>;
+    getRootWorkItemsForTeam(team: BacklogTeam, workItemTypes: string[], filters?: WorkItemFilters, token?: vscode.CancellationToken): Promise<WorkItem[]>;
+    getChildWorkItems(team: BacklogTeam, rootTypes: string[], parentId: number, filters?: WorkItemFilters, token?: vscode.CancellationToken): Promise<WorkItem[]>;
+    /** Items in a team's area below the top backlog level that its tree doesn't reach, with what is beneath them. */
+    getUnparentedTree(team: BacklogTeam, filters?: WorkItemFilters, token?: vscode.CancellationToken): Promise<BacklogTree>;
+    getRemainingWorkRollups(ids: number[], token?: vscode.CancellationToken): Promise<Map<number, number>>;
+
+    /** Saves field changes, rejecting them when `expectedRev` is given and the item has moved on since. */
+    updateWorkItem(workItemId: number, fields: { [key: string]: any }, expectedRev?: number): Promise<WorkItem>;
+    createWorkItem(workItemType: string, fields: { [key: string]: any }, parentId?: number): Promise<WorkItem>;
+    deleteWorkItem(workItemId: number): Promise<void>;
+    addParentLink(workItemId: number, parentId: number): Promise<void>;
+    removeParentLink(workItemId: number): Promise<void>;
+
+    // Bulk edits go a few items at a time and report each item's outcome instead of stopping at the first failure
+    updateWorkItems(updates: WorkItemUpdate[], onProgress?: (done: number, total: number) => void): Promise<BulkResult[]>;
+    moveWorkItems(workItemIds: number[], parentId: number, onProgress?: (done: number, total: number) => void): Promise<BulkResult[]>;
+    deleteWorkItems(workItemIds: number[], onProgress?: (done: number, total: number) => void): Promise<BulkResult[]>;
+
+    getOutboxState(): OutboxState;
+    /** Sends the edits queued while offline, in the order they were made. */
+    sendPendingEdits(): Promise<void>;
+    /** Drops the queued or rejected offline edits of a work item. */
+    discardPendingEdits(workItemId: number): Promise<void>;
+}
@@ -0,0 +1,62 @@
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { byTitle } from './backlogTree';
+
+// Spacing of ranks given at either end of the list, and the smallest gap left between two ranks
+const RANK_STEP = 1000;
+const MIN_RANK_GAP = 0.001;
+
+/** A work item's backlog rank, or undefined if it was never ranked. */
+export function getRank(item: WorkItem, orderField: string): number | undefined {
+    const value = item.fields?.[orderField];
+    return value === null || value === undefined || value === '' || isNaN(Number(value)) ? undefined : Number(value);
+}
+
+/** Backlog order as Azure DevOps shows it: lowest rank first, then unranked items by title. */
+export function byBacklogOrder(orderField: string): (a: WorkItem, b: WorkItem) => number {
+    return (a, b) => {
+        const rankA = getRank(a, orderField);
+        const rankB = getRank(b, orderField);
+        if (rankA !== undefined && rankB !== undefined && rankA !== rankB) return rankA - rankB;
+        if ((rankA === undefined) !== (rankB === undefined)) return rankA === undefined ? 1 : -1;
+        return byTitle(a, b);
+    };
+}
+
+/**
+ * New ranks that put `movedIds` just above `beforeId`, or at the bottom without one, keeping
+ * their order. Like the backlog reorder API, moved items are ranked between their new
+ * neighbours, and the items below are renumbered only where the ranks leave no room.
+ * Unranked items above the new position are ranked too, as unranked items sort last.
+ * `siblings` are in backlog order; only items whose rank changes are returned.
+ */
+export function getReorderedRanks(siblings: WorkItem[], orderField: string, movedIds: number[], beforeId?: number): Map<number, number> {
+    const moved = siblings.filter(item => movedIds.includes(item.id!));
+    const rest = siblings.filter(item => !movedIds.includes(item.id!));
+    const index = beforeId === undefined ? -1 : rest.findIndex(item => item.id === beforeId);
+    const position = index < 0 ? rest.length : index;
+    const order = [...rest.slice(0, position), ...moved, ...rest.slice(position)];
+    const rankAt = (i: number) => i >= 0 && i < order.length ? getRank(order[i], orderField) : undefined;
+
+    const ranks = new Map<number, number>();
+    const unchanged = order.every((item, i) => item === siblings[i]);
+    if (moved.length === 0 || unchanged && moved.every(item => getRank(item, orderField) !== undefined)) return ranks;
+
+    // Ranks are rewritten from `start` up to, not including, `end`
+    let start = position;
+    while (start > 0 && rankAt(start - 1) === undefined) start--;
+    let end = position + moved.length;
+    const lower = rankAt(start - 1);
+    while (lower !== undefined && rankAt(end) !== undefined && (rankAt(end)! - lower) / (end - start + 1) < MIN_RANK_GAP) end++;
+    const upper = rankAt(end);
+
+    const count = end - start;
+    for (let n = 0; n < count; n++) {
+        const rank = lower !== undefined && upper !== undefined ? lower + (upper - lower) * (n + 1) / (count + 1)
+            : lower !== undefined ? lower + RANK_STEP * (n + 1)
+            : upper !== undefined ? upper - RANK_STEP * (count - n)
+            : RANK_STEP * (n + 1);
+        const item = order[start + n];
+        if (getRank(item, orderField) !== rank) ranks.set(item.id!, rank);
+    }
+    return ranks;
+}
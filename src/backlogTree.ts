@@ -0,0 +1,161 @@
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+
+/** Tree filters, applied to every level alike. */
+export interface WorkItemFilters {
+    searchText?: string;
+    iteration?: string;
+    tags?: string[];
+    assignedTo?: string;
+}
+
+export function hasFilters(filters?: WorkItemFilters): boolean {
+    return !!filters && !!(filters.searchText || filters.iteration || filters.tags?.length || filters.assignedTo);
+}
+
+/** Same semantics as the WIQL the filters used to be sent as: ID or title search, `UNDER`, tag and `CONTAINS` matches. */
+export function matchesFilters(item: WorkItem, filters: WorkItemFilters): boolean {
+    const fields = item.fields || {};
+
+    if (filters.searchText) {
+        const search = filters.searchText.trim();
+        if (/^\d+$/.test(search)) {
+            if (item.id !== parseInt(search, 10)) return false;
+        } else if (!String(fields['System.Title'] || '').toLowerCase().includes(search.toLowerCase())) {
+            return false;
+        }
+    }
+
+    if (filters.iteration) {
+        const iteration = String(fields['System.IterationPath'] || '').toLowerCase();
+        const scope = filters.iteration.toLowerCase();
+        if (iteration !== scope && !iteration.startsWith(scope + '\\')) return false;
+    }
+
+    if (filters.tags && filters.tags.length > 0) {
+        const tags = String(fields['System.Tags'] || '').split(';').map(t => t.trim().toLowerCase());
+        if (!filters.tags.every(tag => tags.includes(tag.trim().toLowerCase()))) return false;
+    }
+
+    if (filters.assignedTo) {
+        // Identity fields come back as objects; older servers return "Name <domain\user>" strings
+        const assignedTo = fields['System.AssignedTo'];
+        const names = typeof assignedTo === 'object' && assignedTo
+            ? [assignedTo.displayName, assignedTo.uniqueName]
+            : [assignedTo];
+        const search = filters.assignedTo.toLowerCase();
+        if (!names.some(name => String(name || '').toLowerCase().includes(search))) return false;
+    }
+
+    return true;
+}
+
+export function byTitle(a: WorkItem, b: WorkItem): number {
+    return String(a.fields?.['System.Title'] || '').localeCompare(String(b.fields?.['System.Title'] || ''));
+}
+
+/** A team's backlog as roots plus a parent/child index, answering every level without further queries. */
+export class BacklogTree {
+    constructor(
+        readonly roots: WorkItem[],
+        private readonly childrenOf: (id: number) => WorkItem[]
+    ) { }
+
+    /**
+     * Builds the tree from a recursive `WorkItemLinks` query: `links` pairs each target with its source,
+     * which is undefined for the top-level items.
+     */
+    static fromLinks(items: WorkItem[], links: { source?: number; target: number }[]): BacklogTree {
+        const byId = new Map(items.filter(item => item.id !== undefined).map(item => [item.id!, item]));
+        const roots: WorkItem[] = [];
+        const children = new Map<number, WorkItem[]>();
+        for (const { source, target } of links) {
+            const item = byId.get(target);
+            if (!item) continue;
+            if (source === undefined) {
+                roots.push(item);
+            } else {
+                children.set(source, [...(children.get(source) || []), item]);
+            }
+        }
+        return new BacklogTree(roots, id => children.get(id) || []);
+    }
+
+    getChildren(id: number): WorkItem[] {
+        return this.childrenOf(id);
+    }
+
+    /** All items beneath the roots, each once, parents before their children. */
+    getAll(): WorkItem[] {
+        const seen = new Set<number>();
+        const result: WorkItem[] = [];
+        const visit = (item: WorkItem) => {
+            if (seen.has(item.id!)) return;
+            seen.add(item.id!);
+            result.push(item);
+            this.getChildren(item.id!).forEach(visit);
+        };
+        this.roots.forEach(visit);
+        return result;
+    }
+
+    /** The parent of each item beneath the roots, by ID. */
+    getParents(): Map<number, WorkItem> {
+        const parents = new Map<number, WorkItem>();
+        for (const item of this.getAll()) {
+            for (const child of this.getChildren(item.id!)) {
+                if (!parents.has(child.id!)) parents.set(child.id!, item);
+            }
+        }
+        return parents;
+    }
+
+    /**
+     * Sums `valueOf` over the descendants of a work item. Items it returns a number for
+     * are counted without looking further down, e.g. tasks for remaining work.
+     */
+    rollup(id: number, valueOf: (item: WorkItem) => number | undefined, visiting = new Set<number>()): number {
+        if (visiting.has(id)) return 0;
+        visiting.add(id);
+        let total = 0;
+        for (const child of this.getChildren(id)) {
+            const value = valueOf(child);
+            total += value !== undefined ? value : this.rollup(child.id!, valueOf, visiting);
+        }
+        return total;
+    }
+
+    /** The same tree with the roots and each item's children put in order. */
+    sorted(compare: (a: WorkItem, b: WorkItem) => number): BacklogTree {
+        return new BacklogTree([...this.roots].sort(compare), id => [...this.getChildren(id)].sort(compare));
+    }
+
+    /**
+     * The same tree without the roots `other` reaches anywhere, e.g. to find the items a team's
+     * tree doesn't show. Roots beneath another root are dropped too, so each item appears once.
+     */
+    excluding(other: BacklogTree): BacklogTree {
+        const reached = new Set(other.getAll().map(item => item.id));
+        for (const item of this.getAll()) {
+            this.getChildren(item.id!).forEach(child => reached.add(child.id));
+        }
+        return new BacklogTree(this.roots.filter(item => !reached.has(item.id)), id => this.getChildren(id));
+    }
+
+    /** Keeps the items matching the filters together with their ancestors, so matches stay reachable. */
+    filter(filters: WorkItemFilters): BacklogTree {
+        const kept = new Map<number, WorkItem[]>();
+        const visiting = new Set<number>();
+        // Returns whether the item or anything beneath it matches
+        const visit = (item: WorkItem): boolean => {
+            if (kept.has(item.id!)) return true;
+            if (visiting.has(item.id!)) return false;
+            visiting.add(item.id!);
+            const children = this.getChildren(item.id!).filter(visit);
+            visiting.delete(item.id!);
+            if (children.length === 0 && !matchesFilters(item, filters)) return false;
+            kept.set(item.id!, children);
+            return true;
+        };
+        return new BacklogTree(this.roots.filter(visit), id => kept.get(id) || []);
+    }
+}
@@ -0,0 +1,137 @@
+import { IWorkItemTrackingApi } from 'azure-devops-node-api/WorkItemTrackingApi';
+import { WorkItem, WorkItemErrorPolicy } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { TeamContext } from 'azure-devops-node-api/interfaces/CoreInterfaces';
+import { log } from './log';
+
+/** Most IDs `getWorkItems` accepts in one call. */
+export const MAX_BATCH_SIZE = 200;
+/** Most rows a WIQL query returns; anything beyond is cut off. */
+export const WIQL_MAX_RESULTS = 20000;
+/** Requests in flight at once, enough to hide latency without tripping rate limits. */
+export const DEFAULT_CONCURRENCY = 4;
+
+export interface BatchOptions {
+    batchSize?: number;
+    concurrency?: number;
+    /** Called after each batch with the items loaded so far and the total requested. */
+    onProgress?: (loaded: number, total: number) => void;
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Runs `worker` over the inputs with at most `limit` calls in flight, keeping the results in input order.
+ * Stops starting new calls after the first failure and rejects with it.
+ */
+export async function mapConcurrent<T, R>(inputs: T[], limit: number, worker: (input: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(inputs.length);
+    let next = 0;
+    let failed = false;
+    const run = async () => {
+        while (!failed && next < inputs.length) {
+            const index = next++;
+            try {
+                results[index] = await worker(inputs[index], index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), inputs.length) }, run));
+    return results;
+}
+
+/** Fetches work items in batches of 200 with bounded concurrency, skipping any that no longer exist. */
+export async function fetchWorkItemsInBatches(
+    api: Pick<IWorkItemTrackingApi, 'getWorkItems'>,
+    ids: number[],
+    fields: string[],
+    options: BatchOptions = {}
+): Promise<WorkItem[]> {
+    const batches = chunk(ids, Math.min(options.batchSize || MAX_BATCH_SIZE, MAX_BATCH_SIZE));
+    let loaded = 0;
+    const pages = await mapConcurrent(batches, options.concurrency || DEFAULT_CONCURRENCY, async batch => {
+        const page = await api.getWorkItems(batch, fields, undefined, undefined, WorkItemErrorPolicy.Omit);
+        loaded += batch.length;
+        options.onProgress?.(loaded, ids.length);
+        return (page || []).filter(item => !!item);
+    });
+    return pages.flat();
+}
+
+/**
+ * IDs of every work item matching a WIQL condition, read in pages ordered by ID so results
+ * beyond the 20,000-row limit aren't lost.
+ */
+export async function queryWorkItemIds(
+    api: Pick<IWorkItemTrackingApi, 'queryByWiql'>,
+    condition: string,
+    teamContext: TeamContext,
+    options: { pageSize?: number; timePrecision?: boolean } = {}
+): Promise<number[]> {
+    const pageSize = Math.min(options.pageSize || WIQL_MAX_RESULTS, WIQL_MAX_RESULTS);
+    const ids: number[] = [];
+    let lastId = 0;
+    for (;;) {
+        const result = await api.queryByWiql({
+            query: `SELECT [System.Id] FROM WorkItems
+                WHERE (${condition}) AND [System.Id] > ${lastId}
+                ORDER BY [System.Id]`
+        }, teamContext, options.timePrecision, pageSize);
+        const page = (result.workItems || []).map(wi => wi.id!).filter(id => id !== undefined);
+        ids.push(...page);
+        if (page.length < pageSize) return ids;
+        lastId = page[page.length - 1];
+    }
+}
+
+/** A parent/child pair from a tree query; top-level items have no source. */
+export interface WorkItemLink {
+    source?: number;
+    target: number;
+}
+
+/**
+ * Runs a recursive link query for the given top-level items in batches. A batch whose
+ * result hits the row limit is split in two and retried, so large subtrees aren't truncated.
+ */
+export async function queryLinkTree(
+    api: Pick<IWorkItemTrackingApi, 'queryByWiql'>,
+    rootIds: number[],
+    buildQuery: (rootIds: number[]) => string,
+    teamContext: TeamContext,
+    options: BatchOptions & { maxResults?: number } = {}
+): Promise<WorkItemLink[]> {
+    const maxResults = Math.min(options.maxResults || WIQL_MAX_RESULTS, WIQL_MAX_RESULTS);
+    const queryBatch = async (batch: number[]): Promise<WorkItemLink[]> => {
+        const result = await api.queryByWiql({ query: buildQuery(batch) }, teamContext, false, maxResults);
+        const relations = result.workItemRelations || [];
+        if (relations.length >= maxResults && batch.length > 1) {
+            const half = Math.ceil(batch.length / 2);
+            return [...await queryBatch(batch.slice(0, half)), ...await queryBatch(batch.slice(half))];
+        }
+        if (relations.length >= maxResults) {
+            log.warn(`Work item ${batch[0]} has more than ${maxResults} descendants; the tree beneath it is incomplete.`);
+        }
+        return relations
+            .filter(rel => rel.target?.id !== undefined)
+            .map(rel => ({ source: rel.source?.id, target: rel.target!.id! }));
+    };
+
+    const batches = chunk(rootIds, Math.min(options.batchSize || MAX_BATCH_SIZE, MAX_BATCH_SIZE));
+    let loaded = 0;
+    const results = await mapConcurrent(batches, options.concurrency || DEFAULT_CONCURRENCY, async batch => {
+        const links = await queryBatch(batch);
+        loaded += batch.length;
+        options.onProgress?.(loaded, rootIds.length);
+        return links;
+    });
+    return results.flat();
+}
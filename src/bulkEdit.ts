@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { BulkResult } from './backend';
+import { classifyError } from './errors';
+import { describeError, log } from './log';
+
+/** `System.Tags` holds every tag in one string, separated by semicolons. */
+export function parseTags(tags: string | undefined): string[] {
+    return (tags || '').split(';').map(tag => tag.trim()).filter(Boolean);
+}
+
+/** Adds tags an item doesn't have yet; tags match case-insensitively, as in Azure DevOps. */
+export function addTags(current: string | undefined, tags: string[]): string {
+    const result = parseTags(current);
+    for (const tag of tags) {
+        if (!result.some(existing => existing.toLowerCase() === tag.toLowerCase())) result.push(tag);
+    }
+    return result.join('; ');
+}
+
+export function removeTags(current: string | undefined, tags: string[]): string {
+    const removed = tags.map(tag => tag.toLowerCase());
+    return parseTags(current).filter(tag => !removed.includes(tag.toLowerCase())).join('; ');
+}
+
+/**
+ * The tree nodes a context menu command acts on. VS Code passes the clicked node and, with
+ * several selected, the whole selection, which then includes the clicked node.
+ */
+export function getSelectedNodes(item: any, selected?: any[]): any[] {
+    const nodes = selected && selected.length > 0 ? selected : [item];
+    return nodes.filter(node => node?.workItem);
+}
+
+/** E.g. "Change State: 38 of 40 work items done, 2 failed." */
+export function summarizeBulkResults(title: string, results: BulkResult[]): string {
+    const failed = results.filter(result => result.error !== undefined).length;
+    const items = (count: number) => `${count} work item${count === 1 ? '' : 's'}`;
+    if (failed === 0) return `${title}: ${items(results.length)} done.`;
+    if (failed === results.length) return `${title}: ${items(results.length)} failed.`;
+    return `${title}: ${results.length - failed} of ${items(results.length)} done, ${failed} failed.`;
+}
+
+/**
+ * Runs a bulk edit behind a single progress notification, then reports how it went. Each failure
+ * is logged, and "Show Details" lists every item with its outcome.
+ */
+export async function runBulkEdit(
+    title: string,
+    workItems: WorkItem[],
+    edit: (onProgress: (done: number, total: number) => void) => Promise<BulkResult[]>
+): Promise<void> {
+    const results = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `${title}…`
+    }, progress => {
+        let reported = 0;
+        return edit((done, total) => {
+            progress.report({ message: `${done} of ${total}`, increment: (done - reported) / total * 100 });
+            reported = done;
+        });
+    });
+
+    const failures = results.filter(result => result.error !== undefined);
+    for (const failure of failures) {
+        log.warn(`${title} failed for #${failure.workItemId}: ${describeError(failure.error)}`);
+    }
+    const summary = summarizeBulkResults(title, results);
+    if (failures.length === 0) {
+        vscode.window.showInformationMessage(summary);
+        return;
+    }
+    if (await vscode.window.showWarningMessage(summary, 'Show Details') !== 'Show Details') return;
+
+    const titleOf = (id: number) => workItems.find(workItem => workItem.id === id)?.fields?.['System.Title'] || '';
+    await vscode.window.showQuickPick(results.map(result => ({
+        label: `${result.error === undefined ? '$(check)' : '$(error)'} #${result.workItemId} ${titleOf(result.workItemId)}`,
+        detail: result.error === undefined ? undefined : classifyError(result.error).message
+    })), { title: `${title}: results`, matchOnDetail: true });
+}
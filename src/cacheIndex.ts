@@ -0,0 +1,62 @@
+import { BacklogTree } from './backlogTree';
+
+/**
+ * Reverse index over cached backlog data: the parents each work item was seen under and the
+ * cache entries holding it, so a change only invalidates what it affects.
+ */
+export class CacheIndex {
+    private parents = new Map<number, Set<number>>();
+    private keys = new Map<number, Set<string>>();
+
+    /** Records every item of a tree under its cache key, with the parent of each child. */
+    addTree(key: string, tree: BacklogTree): void {
+        for (const item of tree.getAll()) {
+            this.addKey(item.id!, key);
+            for (const child of tree.getChildren(item.id!)) {
+                this.addLink(item.id!, child.id!);
+            }
+        }
+    }
+
+    addKey(id: number, key: string): void {
+        this.keys.set(id, (this.keys.get(id) || new Set()).add(key));
+    }
+
+    addLink(parentId: number, childId: number): void {
+        this.parents.set(childId, (this.parents.get(childId) || new Set()).add(parentId));
+    }
+
+    has(id: number): boolean {
+        return this.keys.has(id) || this.parents.has(id);
+    }
+
+    /** Every parent the item was seen under, including one it has since been moved away from. */
+    getParents(id: number): number[] {
+        return [...this.parents.get(id) || []];
+    }
+
+    /** Parents, grandparents and so on of the given items, each once. */
+    getAncestors(ids: number[]): number[] {
+        const ancestors = new Set<number>();
+        const pending = [...ids];
+        while (pending.length > 0) {
+            for (const parent of this.getParents(pending.pop()!)) {
+                if (!ancestors.has(parent)) {
+                    ancestors.add(parent);
+                    pending.push(parent);
+                }
+            }
+        }
+        return [...ancestors];
+    }
+
+    /** Cache keys holding any of the given items. */
+    getKeys(ids: number[]): string[] {
+        return [...new Set(ids.flatMap(id => [...this.keys.get(id) || []]))];
+    }
+
+    clear(): void {
+        this.parents.clear();
+        this.keys.clear();
+    }
+}
@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import { ConnectionProfile } from './profiles';
+import { ApiCall, isNestedClient, observeApiCalls } from './apiCalls';
+
+/**
+ * Record and replay of Azure DevOps traffic. Calls are captured at the client library level,
+ * like `withRetries` wraps them: which API client, which method, its arguments and what it
+ * returned or threw. A cassette replays the same calls without a network or credentials.
+ */
+
+/** One client library call and its outcome. */
+export interface CassetteEntry {
+    /** Client the method belongs to, e.g. `WorkItemTrackingApi` or `WebApi`. */
+    api: string;
+    method: string;
+    args: any[];
+    result?: any;
+    error?: { message: string; statusCode?: number; code?: string; responseHeaders?: Record<string, any> };
+    durationMs: number;
+}
+
+export interface Cassette {
+    version: 1;
+    recordedAt: string;
+    /** Connection the calls were made with; replay shows the backlog as this profile saw it. */
+    profile: ConnectionProfile;
+    entries: CassetteEntry[];
+}
+
+/** Thrown on replay for a call the cassette has no recording of. */
+export class CassetteMissError extends Error {
+    readonly statusCode = 404;
+
+    constructor(api: string, method: string) {
+        super(`No recorded response for ${api}.${method}`);
+        this.name = 'CassetteMissError';
+    }
+}
+
+const REDACTED = '[REDACTED]';
+
+/** Keys whose values are credentials, whatever they look like. */
+const SECRET_KEYS = /^(authorization|password|token|accesstoken|refreshtoken|personalaccesstoken|pat)$/i;
+
+/** Classic (52 character) and current (84 character) personal access tokens, and JWT bearer tokens. */
+const TOKEN_PATTERNS = [
+    /\b[a-z2-7]{52}\b/g,
+    /\b[A-Za-z0-9]{76}AZDO[A-Za-z0-9]{4}\b/g,
+    /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g
+];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/** Placeholder domain; addresses already in it are left alone so replayed edits match their recordings. */
+const PLACEHOLDER_DOMAIN = 'example.com';
+
+/**
+ * Scrubs credentials and email addresses from recorded values. Each address gets the same
+ * placeholder throughout a cassette, so identities still line up across calls.
+ */
+export class Redactor {
+    private emails = new Map<string, string>();
+
+    /** @param secrets The credential in use, removed wherever it appears even if no pattern catches it. */
+    constructor(private readonly secrets: string[] = []) { }
+
+    addSecrets(secrets: string[]): void {
+        this.secrets.push(...secrets);
+    }
+
+    redact<T>(value: T): T {
+        if (value === undefined) return value;
+        return this.walk(JSON.parse(JSON.stringify(value)));
+    }
+
+    private walk(value: any): any {
+        if (typeof value === 'string') return this.redactString(value);
+        if (Array.isArray(value)) return value.map(item => this.walk(item));
+        if (value && typeof value === 'object') {
+            const redacted: Record<string, any> = {};
+            for (const [key, item] of Object.entries(value)) {
+                redacted[this.redactString(key)] = SECRET_KEYS.test(key) && item ? REDACTED : this.walk(item);
+            }
+            return redacted;
+        }
+        return value;
+    }
+
+    private redactString(text: string): string {
+        for (const secret of this.secrets) {
+            if (secret) text = text.split(secret).join(REDACTED);
+        }
+        for (const pattern of TOKEN_PATTERNS) {
+            text = text.replace(pattern, REDACTED);
+        }
+        return text.replace(EMAIL_PATTERN, email => this.replaceEmail(email));
+    }
+
+    private replaceEmail(email: string): string {
+        if (email.toLowerCase().endsWith(`@${PLACEHOLDER_DOMAIN}`)) return email;
+        const key = email.toLowerCase();
+        let placeholder = this.emails.get(key);
+        if (!placeholder) {
+            placeholder = `user${this.emails.size + 1}@${PLACEHOLDER_DOMAIN}`;
+            this.emails.set(key, placeholder);
+        }
+        return placeholder;
+    }
+}
+
+/** Credentials held by a client library request handler, e.g. a PAT or bearer token. */
+export function getHandlerSecrets(handler: any): string[] {
+    const secrets: string[] = [];
+    for (const key of ['token', 'password']) {
+        const value = handler?.[key];
+        if (typeof value === 'string' && value.length >= 8) {
+            secrets.push(value, Buffer.from(value).toString('base64'));
+        }
+    }
+    if (typeof handler?.username === 'string' && typeof handler?.password === 'string') {
+        secrets.push(Buffer.from(`${handler.username}:${handler.password}`).toString('base64'));
+    }
+    return secrets;
+}
+
+/** Collects redacted calls as they happen. */
+export class CassetteRecorder {
+    private readonly entries: CassetteEntry[] = [];
+    private readonly redactor: Redactor;
+
+    constructor(private readonly profile: ConnectionProfile, secrets: string[] = []) {
+        this.redactor = new Redactor([...secrets]);
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /** The credential of a (re)built connection, so it is scrubbed from what is recorded next. */
+    addSecrets(secrets: string[]): void {
+        this.redactor.addSecrets(secrets);
+    }
+
+    record({ api, method, args, durationMs, result, error }: ApiCall): void {
+        const entry: CassetteEntry = { api, method, args: this.redactor.redact(args), durationMs: Math.round(durationMs) };
+        if (error) {
+            entry.error = this.redactor.redact({
+                message: String(error?.message ?? error),
+                statusCode: error?.statusCode,
+                code: error?.code,
+                responseHeaders: error?.responseHeaders
+            });
+        } else {
+            entry.result = this.redactor.redact(result);
+        }
+        this.entries.push(entry);
+    }
+
+    toCassette(): Cassette {
+        const { organizationUrl, project, serverType, apiVersion, areaPaths, teams, defaultIterationPath } = this.profile;
+        return {
+            version: 1,
+            recordedAt: new Date().toISOString(),
+            profile: this.redactor.redact({
+                name: 'Replay', organizationUrl, project, serverType, authenticationMethod: 'pat',
+                apiVersion, areaPaths, teams, defaultIterationPath
+            }),
+            entries: [...this.entries]
+        };
+    }
+}
+
+/** Wraps an API client so every method call is recorded, including those of the clients it hands out. */
+export function withRecording<T extends object>(api: T, recorder: CassetteRecorder): T {
+    return observeApiCalls(api, call => recorder.record(call));
+}
+
+/**
+ * Answers calls from a cassette. A call gets the next unused recording with the same arguments,
+ * then repeats the last one; calls whose arguments changed since, such as a sync watermark,
+ * get the next unused recording of the same method.
+ */
+export class CassettePlayer {
+    private used = new Set<CassetteEntry>();
+
+    constructor(private readonly cassette: Cassette) { }
+
+    async play(api: string, method: string, args: any[]): Promise<any> {
+        const entry = this.find(api, method, JSON.stringify(args));
+        if (!entry) throw new CassetteMissError(api, method);
+        this.used.add(entry);
+        if (entry.error) {
+            throw Object.assign(new Error(entry.error.message), {
+                statusCode: entry.error.statusCode,
+                code: entry.error.code,
+                responseHeaders: entry.error.responseHeaders
+            });
+        }
+        // Callers may modify what they get back
+        return entry.result === undefined ? undefined : JSON.parse(JSON.stringify(entry.result));
+    }
+
+    private find(api: string, method: string, args: string): CassetteEntry | undefined {
+        const calls = this.cassette.entries.filter(e => e.api === api && e.method === method);
+        const sameArgs = calls.filter(e => JSON.stringify(e.args) === args);
+        return sameArgs.find(e => !this.used.has(e))
+            || sameArgs[sameArgs.length - 1]
+            || calls.find(e => !this.used.has(e));
+    }
+}
+
+/** A stand-in for `azdev.WebApi` whose clients answer every call from the player. */
+export function createReplayClient<T>(player: CassettePlayer, name = 'WebApi'): T {
+    return new Proxy({}, {
+        get(_target, property) {
+            // Not a promise, so it can be returned from async functions
+            if (typeof property !== 'string' || property === 'then') return undefined;
+            if (isNestedClient(property)) return createReplayClient(player, `${name}.${property}`);
+            if (/^get\w*Api$/.test(property)) return async () => createReplayClient(player, property.slice(3));
+            return (...args: any[]) => player.play(name, property, args);
+        }
+    }) as T;
+}
+
+export function loadCassette(file: string): Cassette {
+    const cassette = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (cassette?.version !== 1 || !Array.isArray(cassette.entries) || !cassette.profile) {
+        throw new Error(`${file} is not a recording of Azure DevOps requests.`);
+    }
+    return cassette;
+}
+
+export function saveCassette(file: string, cassette: Cassette): void {
+    fs.writeFileSync(file, JSON.stringify(cassette, null, 2), 'utf8');
+}
@@ -0,0 +1,360 @@
+import * as vscode from 'vscode';
+import * as http from 'http';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import * as dns from 'dns';
+import * as crypto from 'crypto';
+import * as azdev from 'azure-devops-node-api';
+import { IHttpClient, IHttpClientResponse, IRequestHandler, IRequestInfo, IRequestOptions } from 'azure-devops-node-api/interfaces/common/VsoBaseInterfaces';
+import { ConnectionProfile } from './profiles';
+
+/** Location ID of the `wit/workitems` REST resource, used to probe which API versions a server supports. */
+const WORK_ITEMS_LOCATION_ID = '72c7ddf8-2cdc-4f60-90cd-ab71c14a399b';
+
+/** Collection URL without trailing slashes, e.g. `https://dev.azure.com/org` or `https://tfs.corp/tfs/DefaultCollection`. */
+export function getCollectionUrl(profile: ConnectionProfile): string {
+    return profile.organizationUrl.trim().replace(/\/+$/, '');
+}
+
+/** Web UI link for a work item, valid for Azure DevOps Services and Server. */
+export function getWorkItemWebUrl(profile: ConnectionProfile, workItemId: number): string {
+    return `${getCollectionUrl(profile)}/${encodeURIComponent(profile.project)}/_workitems/edit/${workItemId}`;
+}
+
+/** REST URL for a work item, as used in relation links. */
+export function getWorkItemApiUrl(profile: ConnectionProfile, workItemId: number): string {
+    return `${getCollectionUrl(profile)}/_apis/wit/workItems/${workItemId}`;
+}
+
+/**
+ * Returns a description of what is wrong with a profile's organization URL
+ * for its server type, or undefined if it looks usable.
+ */
+export function validateCollectionUrl(profile: ConnectionProfile): string | undefined {
+    let url: URL;
+    try {
+        url = new URL(getCollectionUrl(profile));
+    } catch {
+        return `"${profile.organizationUrl}" is not a valid URL.`;
+    }
+    const hasPath = url.pathname.replace(/\/+$/, '') !== '';
+    if (profile.serverType === 'server' && !hasPath) {
+        return 'Azure DevOps Server URLs must include the collection, e.g. https://tfs.corp/tfs/DefaultCollection.';
+    }
+    if (profile.serverType !== 'server' && url.hostname === 'dev.azure.com' && !hasPath) {
+        return 'Azure DevOps Services URLs must include the organization, e.g. https://dev.azure.com/yourorg.';
+    }
+    return undefined;
+}
+
+/**
+ * Wraps the authentication handler and lowers the `api-version` the client
+ * library requests to what the server supports. The library negotiates per
+ * resource, but older Azure DevOps Server releases still reject some of the
+ * newer preview versions it asks for.
+ */
+export class ApiVersionHandler implements IRequestHandler {
+    maxVersion: string | undefined;
+
+    constructor(private readonly inner: IRequestHandler, maxVersion?: string) {
+        this.maxVersion = maxVersion;
+    }
+
+    prepareRequest(options: http.RequestOptions): void {
+        this.inner.prepareRequest(options);
+        if (!this.maxVersion || !options.headers) { return; }
+
+        const headers = options.headers as http.OutgoingHttpHeaders;
+        for (const name of Object.keys(headers)) {
+            if (name.toLowerCase() === 'accept' && typeof headers[name] === 'string') {
+                headers[name] = capApiVersion(headers[name] as string, this.maxVersion);
+            }
+        }
+    }
+
+    canHandleAuthentication(response: IHttpClientResponse): boolean {
+        return this.inner.canHandleAuthentication(response);
+    }
+
+    handleAuthentication(httpClient: IHttpClient, requestInfo: IRequestInfo, objs: any): Promise<IHttpClientResponse> {
+        return this.inner.handleAuthentication(httpClient, requestInfo, objs);
+    }
+}
+
+/** Rewrites an `api-version=` parameter in an Accept header so it does not exceed `maxVersion`. */
+export function capApiVersion(acceptHeader: string, maxVersion: string): string {
+    return acceptHeader.replace(/api-version=(\d+(?:\.\d+)?)(-preview(?:\.\d+)?)?/, (match, version: string, preview?: string) => {
+        if (parseFloat(version) <= parseFloat(maxVersion)) {
+            return match;
+        }
+        // Drop the resource version: it may not exist at the lower API version
+        return `api-version=${maxVersion}${preview ? '-preview' : ''}`;
+    });
+}
+
+/** Proxy and certificate settings, taken from VS Code's `http.*` settings and `adoBacklog.caCertificatePaths`. */
+export interface NetworkSettings {
+    proxyUrl?: string;
+    /** Why `http.proxy` couldn't be used; connections then go direct and Test Connection reports it. */
+    proxyError?: string;
+    strictSSL: boolean;
+    noProxy: string[];
+    caCertificatePaths: string[];
+}
+
+export function readNetworkSettings(): NetworkSettings {
+    const httpConfig = vscode.workspace.getConfiguration('http');
+    return {
+        ...parseProxySetting(httpConfig.get<string>('proxy') || ''),
+        strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+        noProxy: httpConfig.get<string[]>('noProxy') || [],
+        caCertificatePaths: vscode.workspace.getConfiguration('adoBacklog').get<string[]>('caCertificatePaths') || []
+    };
+}
+
+/** The `http.proxy` setting as a URL, reading one without a scheme such as `proxy.corp:8080` as an HTTP proxy. */
+export function parseProxySetting(value: string): Pick<NetworkSettings, 'proxyUrl' | 'proxyError'> {
+    const trimmed = value.trim();
+    if (!trimmed) { return {}; }
+    try {
+        return { proxyUrl: new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`).toString() };
+    } catch {
+        // The value may hold proxy credentials, so it isn't repeated
+        return { proxyError: 'Invalid http.proxy setting: expected a URL such as http://proxy.corp:8080' };
+    }
+}
+
+/**
+ * Writes Node's built-in root certificates plus the configured ones into a
+ * single bundle, since the client library accepts one CA file and a custom CA
+ * list replaces the default trust store. Unreadable paths are reported back.
+ */
+export function buildCaBundle(caCertificatePaths: string[]): { caFile?: string; missing: string[] } {
+    const missing: string[] = [];
+    const extra: string[] = [];
+    for (const caPath of caCertificatePaths) {
+        const resolved = caPath.startsWith('~') ? path.join(os.homedir(), caPath.slice(1)) : caPath;
+        try {
+            extra.push(fs.readFileSync(resolved, 'utf8'));
+        } catch {
+            missing.push(caPath);
+        }
+    }
+    if (extra.length === 0) { return { missing }; }
+
+    const bundle = [...tls.rootCertificates, ...extra].join('\n');
+    const hash = crypto.createHash('sha1').update(bundle).digest('hex').substring(0, 12);
+    const caFile = path.join(os.tmpdir(), `ado-backlog-ca-${hash}.pem`);
+    if (!fs.existsSync(caFile)) {
+        fs.writeFileSync(caFile, bundle, 'utf8');
+    }
+    return { caFile, missing };
+}
+
+/** Turns an `http.noProxy` glob such as `*.corp.local` into a regular expression source. */
+function noProxyPatternToRegex(pattern: string): string {
+    return pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+}
+
+function isProxyBypassed(hostname: string, noProxy: string[]): boolean {
+    return noProxy.some(pattern => new RegExp(`^${noProxyPatternToRegex(pattern)}$`, 'i').test(hostname)
+        || (pattern.startsWith('.') && hostname.toLowerCase().endsWith(pattern.toLowerCase())));
+}
+
+/** Client library request options honouring the proxy, strict SSL and CA settings. */
+export function getRequestOptions(network: NetworkSettings): IRequestOptions {
+    const options: IRequestOptions = {
+        ignoreSslError: !network.strictSSL
+    };
+
+    if (network.proxyUrl) {
+        // Credentials embedded in the proxy URL have to be passed separately
+        const proxy = new URL(network.proxyUrl);
+        const proxyUsername = proxy.username ? decodeURIComponent(proxy.username) : undefined;
+        const proxyPassword = proxy.password ? decodeURIComponent(proxy.password) : undefined;
+        proxy.username = '';
+        proxy.password = '';
+        options.proxy = {
+            proxyUrl: proxy.toString(),
+            proxyUsername,
+            proxyPassword,
+            // The client library treats bypass entries as regular expressions
+            proxyBypassHosts: network.noProxy.map(noProxyPatternToRegex)
+        };
+    }
+
+    const { caFile } = buildCaBundle(network.caCertificatePaths);
+    if (caFile) {
+        options.cert = { caFile };
+    }
+    return options;
+}
+
+export function createConnection(
+    profile: ConnectionProfile,
+    authHandler: IRequestHandler,
+    network: NetworkSettings = readNetworkSettings()
+): { connection: azdev.WebApi; versionHandler: ApiVersionHandler } {
+    const versionHandler = new ApiVersionHandler(authHandler, profile.apiVersion);
+    const connection = new azdev.WebApi(getCollectionUrl(profile), versionHandler, getRequestOptions(network));
+    return { connection, versionHandler };
+}
+
+/** Asks the server which work item API version it has released, e.g. "6.0" on Azure DevOps Server 2020. */
+export async function negotiateApiVersion(connection: azdev.WebApi): Promise<string | undefined> {
+    const witApi = await connection.getWorkItemTrackingApi();
+    const location = await witApi.vsoClient.beginGetLocation('wit', WORK_ITEMS_LOCATION_ID);
+    const released = location?.releasedVersion;
+    return released && parseFloat(released) > 0 ? released : undefined;
+}
+
+export type ConnectionTestStageName = 'Settings' | 'DNS' | 'TLS' | 'Authentication' | 'Project';
+
+export interface ConnectionTestStage {
+    name: ConnectionTestStageName;
+    ok: boolean;
+    detail: string;
+}
+
+const CERTIFICATE_ERRORS = new Set([
+    'SELF_SIGNED_CERT_IN_CHAIN', 'DEPTH_ZERO_SELF_SIGNED_CERT', 'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'UNABLE_TO_GET_ISSUER_CERT', 'UNABLE_TO_VERIFY_LEAF_SIGNATURE', 'CERT_UNTRUSTED'
+]);
+
+function describeNetworkError(error: any): string {
+    const code: string | undefined = error?.code;
+    if (code && CERTIFICATE_ERRORS.has(code)) {
+        return `${error.message} (${code}). If you are behind a TLS-inspecting proxy, add its root certificate to adoBacklog.caCertificatePaths.`;
+    }
+    if (code === 'CERT_HAS_EXPIRED' || code === 'ERR_TLS_CERT_ALTNAME_INVALID') {
+        return `${error.message} (${code}). Check that the organization URL uses the server's real host name.`;
+    }
+    return code ? `${error.message} (${code})` : (error?.message || String(error));
+}
+
+function tlsHandshake(host: string, port: number, network: NetworkSettings, caFile?: string): Promise<tls.PeerCertificate> {
+    return new Promise((resolve, reject) => {
+        const socket = tls.connect({
+            host,
+            port,
+            servername: host,
+            ca: caFile ? fs.readFileSync(caFile, 'utf8') : undefined,
+            rejectUnauthorized: network.strictSSL,
+            timeout: 15000
+        }, () => {
+            const certificate = socket.getPeerCertificate();
+            socket.end();
+            resolve(certificate);
+        });
+        socket.on('timeout', () => {
+            socket.destroy();
+            reject(Object.assign(new Error(`Timed out connecting to ${host}:${port}`), { code: 'ETIMEDOUT' }));
+        });
+        socket.on('error', reject);
+    });
+}
+
+/**
+ * Checks a connection stage by stage and stops at the first failure, so the
+ * report says exactly where things went wrong: settings, DNS, TLS (or the
+ * proxy tunnel), authentication or the project lookup.
+ */
+export async function testConnection(
+    profile: ConnectionProfile,
+    authHandler: IRequestHandler | null,
+    network: NetworkSettings = readNetworkSettings()
+): Promise<ConnectionTestStage[]> {
+    const stages: ConnectionTestStage[] = [];
+    const fail = (name: ConnectionTestStageName, detail: string) => {
+        stages.push({ name, ok: false, detail });
+        return stages;
+    };
+
+    // Settings
+    if (!profile.organizationUrl || !profile.project) {
+        return fail('Settings', 'Organization URL and project must both be set.');
+    }
+    const urlProblem = validateCollectionUrl(profile);
+    if (urlProblem) {
+        return fail('Settings', urlProblem);
+    }
+    const url = new URL(getCollectionUrl(profile));
+    const { caFile, missing } = buildCaBundle(network.caCertificatePaths);
+    if (missing.length > 0) {
+        return fail('Settings', `Could not read CA certificate file(s): ${missing.join(', ')}`);
+    }
+    if (network.proxyError) {
+        return fail('Settings', network.proxyError);
+    }
+    const useProxy = !!network.proxyUrl && !isProxyBypassed(url.hostname, network.noProxy);
+    stages.push({
+        name: 'Settings',
+        ok: true,
+        detail: `${url.origin}${url.pathname}, project "${profile.project}"${useProxy ? `, via proxy ${new URL(network.proxyUrl!).host}` : ''}`
+    });
+
+    // DNS: resolve whichever host we actually connect to
+    const dnsHost = useProxy ? new URL(network.proxyUrl!).hostname : url.hostname;
+    try {
+        const address = await dns.promises.lookup(dnsHost);
+        stages.push({ name: 'DNS', ok: true, detail: `${dnsHost} resolved to ${address.address}` });
+    } catch (error: any) {
+        return fail('DNS', `Could not resolve ${dnsHost}${useProxy ? ' (proxy)' : ''}: ${describeNetworkError(error)}`);
+    }
+
+    // TLS: a direct handshake gives the clearest certificate errors; through a
+    // proxy we can only check that a request makes it through the tunnel
+    if (url.protocol === 'https:' && !useProxy) {
+        try {
+            const certificate = await tlsHandshake(url.hostname, url.port ? parseInt(url.port, 10) : 443, network, caFile);
+            const issuer = certificate.issuer?.O || certificate.issuer?.CN || 'unknown issuer';
+            stages.push({ name: 'TLS', ok: true, detail: `Certificate for ${certificate.subject?.CN || url.hostname} issued by ${issuer}` });
+        } catch (error: any) {
+            return fail('TLS', describeNetworkError(error));
+        }
+    }
+
+    // Anonymous probe when signed out, so network problems are still reported
+    const probeHandler = authHandler || azdev.getBasicHandler('', '');
+    const { connection } = createConnection(profile, probeHandler, network);
+    if (useProxy || url.protocol !== 'https:') {
+        try {
+            const response = await connection.rest.client.get(`${getCollectionUrl(profile)}/_apis/connectionData`);
+            stages.push({ name: 'TLS', ok: true, detail: `Reached the server (HTTP ${response.message.statusCode})${useProxy ? ' through the proxy' : ''}` });
+        } catch (error: any) {
+            return fail('TLS', describeNetworkError(error));
+        }
+    }
+
+    // Authentication
+    if (!authHandler) {
+        return fail('Authentication', 'Not signed in. Run "ADO: Sign In".');
+    }
+    try {
+        const connectionData = await connection.connect();
+        const user = connectionData?.authenticatedUser;
+        if (!user || user.descriptor?.identityType?.includes('Unauthenticated')) {
+            return fail('Authentication', 'The server treated the request as anonymous. Check that your credentials are valid and not expired.');
+        }
+        stages.push({ name: 'Authentication', ok: true, detail: `Signed in as ${user.providerDisplayName || user.id}` });
+    } catch (error: any) {
+        const status = error?.statusCode ? ` (HTTP ${error.statusCode})` : '';
+        return fail('Authentication', `${error?.message || error}${status}`);
+    }
+
+    // Project
+    try {
+        const coreApi = await connection.getCoreApi();
+        const project = await coreApi.getProject(profile.project);
+        if (!project) {
+            return fail('Project', `Project "${profile.project}" was not found or you do not have access to it.`);
+        }
+        stages.push({ name: 'Project', ok: true, detail: `${project.name} (${project.id})` });
+    } catch (error: any) {
+        return fail('Project', error?.message || String(error));
+    }
+
+    return stages;
+}
@@ -0,0 +1,98 @@
+import { RequestCancelledError } from './retry';
+import { isRevisionConflict } from './merge';
+
+/** What went wrong, as far as the user can do something about it. */
+export type ErrorKind =
+    | 'authentication'
+    | 'permission'
+    | 'validation'
+    | 'notFound'
+    | 'conflict'
+    | 'throttled'
+    | 'offline'
+    | 'server'
+    | 'cancelled'
+    | 'unknown';
+
+/** Ways out of an error that a notification can offer. */
+export type ErrorAction = 'signIn' | 'openInBrowser' | 'retry' | 'refresh';
+
+export interface ClassifiedError {
+    kind: ErrorKind;
+    /** What happened and what to do about it, in words a user can act on. */
+    message: string;
+    /** Fields a work item rule rejected, for validation errors. */
+    fields: string[];
+    actions: ErrorAction[];
+}
+
+const OFFLINE_CODES = ['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ENETUNREACH', 'EHOSTUNREACH'];
+
+/** `Microsoft.VSTS.Common.AcceptanceCriteria` reads as "Acceptance Criteria". */
+function fieldName(field: string): string {
+    const name = field.trim().split('.').pop() || field;
+    return name.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+/**
+ * Fields named by a rule violation, e.g. `TF401320: Rule Error for field Title` or
+ * `TF401326: Invalid field status 'InvalidEmpty' for field 'System.Title'`.
+ */
+export function getRejectedFields(message: string): string[] {
+    const fields = [
+        ...[...message.matchAll(/Rule Error for field ([^.:]+)/gi)].map(m => m[1]),
+        ...[...message.matchAll(/for field '([^']+)'/gi)].map(m => m[1])
+    ].map(fieldName);
+    return [...new Set(fields)];
+}
+
+function isValidationError(status: number | undefined, message: string): boolean {
+    return (status === 400 || status === undefined) && /TF401320|TF401326|TF401327|Rule Error|Invalid field status/i.test(message);
+}
+
+/** Recognizes the Azure DevOps failures users run into and what they can do about each. */
+export function classifyError(error: any): ClassifiedError {
+    const status: number | undefined = error?.statusCode;
+    const message: string = error?.message ?? String(error);
+    const result = (kind: ErrorKind, text: string, actions: ErrorAction[] = [], fields: string[] = []): ClassifiedError =>
+        ({ kind, message: text, fields, actions });
+
+    if (error instanceof RequestCancelledError) {
+        return result('cancelled', 'The request was cancelled.');
+    }
+    if (OFFLINE_CODES.includes(error?.code)) {
+        return result('offline', "Azure DevOps can't be reached. Check your network connection and proxy settings.", ['retry']);
+    }
+    if (status === 401 || status === 203 || /TF400813|VS30063|not authorized to access/i.test(message)) {
+        if (/expired/i.test(message)) {
+            return result('authentication', 'Your Azure DevOps sign-in has expired. Sign in again to continue.', ['signIn']);
+        }
+        if (/scope/i.test(message)) {
+            return result('authentication', "Your Personal Access Token doesn't have the scopes needed. Sign in with one that has Work Items (Read & Write).", ['signIn']);
+        }
+        return result('authentication', 'Azure DevOps rejected your credentials. Sign in again to continue.', ['signIn']);
+    }
+    // "Does not exist, or you do not have permissions to read it" is how a deleted item looks
+    if (status === 404 || /TF401232/i.test(message)) {
+        return result('notFound', "The work item doesn't exist anymore, or you don't have access to it. It may have been deleted or moved.", ['refresh']);
+    }
+    if (status === 403 || /TF401019|TF237111|TF401027|do(?:es)? not have permissions?\b/i.test(message)) {
+        return result('permission', "You don't have permission to do this in Azure DevOps. Ask a project administrator for access.", ['openInBrowser']);
+    }
+    if (isRevisionConflict(error)) {
+        return result('conflict', 'Someone else changed the work item in the meantime. Refresh it and try again.', ['refresh']);
+    }
+    if (isValidationError(status, message)) {
+        const fields = getRejectedFields(message);
+        return result('validation', fields.length > 0
+            ? `A work item rule rejected the value of ${fields.join(', ')}. Open it in the browser to see what the rule allows.`
+            : `A work item rule rejected the change: ${message}`, ['openInBrowser'], fields);
+    }
+    if (status === 429) {
+        return result('throttled', 'Azure DevOps is rate limiting requests. Wait a moment and try again.', ['retry']);
+    }
+    if (status !== undefined && status >= 500) {
+        return result('server', `Azure DevOps couldn't handle the request (HTTP ${status}). Try again in a moment.`, ['retry']);
+    }
+    return result('unknown', message, ['retry']);
+}
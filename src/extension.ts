@@ -1,47 +1,442 @@
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
 import { AdoBacklogProvider } from './adoBacklogProvider';
 import { AdoService } from './adoService';
+import { BacklogBackend, FetchProgress, OutboxState } from './backend';
+import { FakeBacklogBackend } from './fakeBackend';
+import { Cassette, loadCassette, saveCassette } from './cassette';
+import { log, setLogOutput } from './log';
+import { showAdoError, showError, withErrorHandling } from './notify';
+import { BacklogTeam } from './teams';
+import { createAuthStrategy, migratePatSetting } from './auth';
+import { ConnectionProfile, getProfiles, pickProfile, setActiveProfile } from './profiles';
+import { getWorkItemWebUrl, validateCollectionUrl } from './connection';
+import { runSetupWizard } from './setupWizard';
+import { getTreeLevels } from './hierarchy';
+import { MAX_BATCH_SIZE } from './batchFetch';
+import { FieldConflict, describeFieldValue, getChangedFields, isRevisionConflict, mergeFields, resolveConflicts } from './merge';
+import { addTags, getSelectedNodes, parseTags, removeTags, runBulkEdit } from './bulkEdit';
+import { DEFAULT_LAYOUT, GROUP_MODES, SORT_MODES, TreeLayout, ViewMode } from './treeLayout';
 
 export function activate(context: vscode.ExtensionContext) {
-    console.log('Azure DevOps Backlog Explorer is now active!');
+    // Every command reports failures the same way, named after its title and with actions that fit the error
+    const commandTitles = new Map<string, string>((context.extension.packageJSON.contributes?.commands || [])
+        .map((c: { command: string; title: string }) => [c.command, c.title.replace(/^ADO: /, '')]));
+    function registerCommand(command: string, handler: (...args: any[]) => unknown): vscode.Disposable {
+        return vscode.commands.registerCommand(command, withErrorHandling(commandTitles.get(command) || command, handler, item => ({
+            workItemUrl: item?.workItem?.id && backend.hasConnectionSettings() ? getWorkItemWebUrl(backend.getProfile(), item.workItem.id) : undefined
+        })));
+    }
 
-    const adoService = new AdoService();
-    const backlogProvider = new AdoBacklogProvider(adoService);
+    // Everything the extension does with Azure DevOps is logged here
+    const logOutput = vscode.window.createOutputChannel('Azure DevOps Backlog', { log: true });
+    setLogOutput(logOutput);
+    context.subscriptions.push(
+        logOutput,
+        registerCommand('adoBacklog.showLogs', () => logOutput.show())
+    );
+    log.info('Azure DevOps Backlog Explorer is now active');
+
+    const authStrategyFactory = (profile: ConnectionProfile) => createAuthStrategy(profile, context.secrets, context.globalState);
+    // Demo mode serves a sample backlog from memory, for trainings and screenshots
+    const demoSettings = vscode.workspace.getConfiguration('adoBacklog');
+    // Replay serves the extension from recorded requests, to reproduce what someone else saw
+    const replayPath = demoSettings.get<string>('replayCassettePath');
+    let replay: Cassette | undefined;
+    if (replayPath && !demoSettings.get<boolean>('demoMode')) {
+        try {
+            replay = loadCassette(replayPath);
+        } catch (error: any) {
+            showError(`Could not load the recording to replay: ${error.message}`, error);
+        }
+    }
+    const backend: BacklogBackend = demoSettings.get<boolean>('demoMode')
+        ? FakeBacklogBackend.fromFile(demoSettings.get<string>('demoDataPath') || context.asAbsolutePath('resources/demo-backlog.json'))
+        : new AdoService(authStrategyFactory, context.globalStorageUri, replay);
+    const backlogProvider = new AdoBacklogProvider(backend);
+
+    // View, sort and group choices are kept per view in the workspace
+    const layoutKey = 'treeLayout:adoBacklog';
+    const applyLayout = (layout: TreeLayout) => {
+        backlogProvider.setLayout(layout);
+        vscode.commands.executeCommand('setContext', 'adoBacklog.listView', layout.view === 'list');
+        // Reordering only makes sense while the tree shows the backlog order
+        vscode.commands.executeCommand('setContext', 'adoBacklog.canReorder', layout.view === 'tree' && layout.sortBy === 'priority');
+    };
+    const savedLayout = context.workspaceState.get<Partial<TreeLayout>>(layoutKey) || {};
+    applyLayout({
+        view: savedLayout.view === 'list' ? 'list' : DEFAULT_LAYOUT.view,
+        sortBy: SORT_MODES.find(s => s.mode === savedLayout.sortBy)?.mode || DEFAULT_LAYOUT.sortBy,
+        groupBy: GROUP_MODES.find(g => g.mode === savedLayout.groupBy)?.mode || DEFAULT_LAYOUT.groupBy
+    });
 
     // Track open detail panels by work item ID
     const openPanels = new Map<number, vscode.WebviewPanel>();
+    // The revision each detail panel was rendered from, which saves are checked against
+    const panelItems = new Map<number, WorkItem>();
+    // Track open team info panels by team name
+    const teamPanels = new Map<string, vscode.WebviewPanel>();
+
+    // The backend is chosen once per window
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(async e => {
+            if (!['demoMode', 'demoDataPath', 'replayCassettePath'].some(setting => e.affectsConfiguration(`adoBacklog.${setting}`))) { return; }
+            const choice = await vscode.window.showInformationMessage(
+                'Reload the window to switch between demo data, a recording and Azure DevOps.',
+                'Reload Window'
+            );
+            if (choice === 'Reload Window') {
+                vscode.commands.executeCommand('workbench.action.reloadWindow');
+            }
+        })
+    );
+
+    // Move any PAT still sitting in settings.json into SecretStorage
+    migratePatSetting(context.secrets).then(migrated => {
+        if (migrated) {
+            vscode.window.showInformationMessage(
+                'Your Azure DevOps Personal Access Token was moved from settings into secure storage.'
+            );
+        }
+    }, error => {
+        showAdoError('Failed to migrate Personal Access Token', error);
+    });
+
+    // Status bar switcher showing the active connection profile
+    const profileStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    profileStatus.command = 'adoBacklog.switchProfile';
+    context.subscriptions.push(profileStatus);
 
-    // Eagerly warm the team members cache in the background
-    adoService.getAllTeamMembers().catch(() => {});
+    function updateProfileStatus() {
+        const profile = backend.getProfile();
+        if (!profile.organizationUrl && getProfiles().length === 0) {
+            profileStatus.hide();
+            return;
+        }
+        profileStatus.text = `$(azure-devops) ${profile.name}`;
+        profileStatus.tooltip = `Azure DevOps: ${profile.project || '(no project)'} on ${profile.organizationUrl || '(no organization)'}\nClick to switch profile`;
+        profileStatus.show();
+    }
+
+    // Keep welcome views, the status bar and open panels in step with the connection
+    let wasConfigured: boolean | undefined;
+    let lastProfileName: string | undefined;
+    let warnedUrl: string | undefined;
+    context.subscriptions.push(
+        backend.onDidChangeConnection(async () => {
+            vscode.commands.executeCommand('setContext', 'adoBacklog.hasConnectionSettings', backend.hasConnectionSettings());
+            vscode.commands.executeCommand('setContext', 'adoBacklog.signedIn', backend.isSignedIn());
+            updateProfileStatus();
+
+            // Point out a malformed organization/collection URL once per value
+            const profile = backend.getProfile();
+            const urlProblem = profile.organizationUrl ? validateCollectionUrl(profile) : undefined;
+            if (urlProblem && warnedUrl !== profile.organizationUrl) {
+                warnedUrl = profile.organizationUrl;
+                vscode.window.showWarningMessage(`Azure DevOps: ${urlProblem}`);
+            }
+
+            // Re-root the tree when the profile changes; filters and paging belong to the old project
+            const profileName = profile.name;
+            if (lastProfileName !== undefined && profileName !== lastProfileName) {
+                backlogProvider.reset();
+            }
+            lastProfileName = profileName;
+            backlogProvider.refreshImmediate();
+
+            // Only re-render panels when the signed-in state actually flips
+            if (backend.isConfigured() === wasConfigured) { return; }
+            wasConfigured = backend.isConfigured();
+
+            if (!backend.isConfigured()) {
+                for (const panel of [...openPanels.values(), ...teamPanels.values()]) {
+                    panel.webview.html = getSignedOutHtml(crypto.randomBytes(16).toString('base64'));
+                }
+                return;
+            }
+
+            backend.getAllTeamMembers().catch(() => {});
+            for (const [workItemId, panel] of openPanels) {
+                const freshWorkItem = await backend.getWorkItem(workItemId).catch(() => null);
+                if (freshWorkItem) {
+                    const members = await backend.getAllTeamMembers();
+                    panelItems.set(workItemId, freshWorkItem);
+                    panel.webview.html = getWorkItemHtml(freshWorkItem, crypto.randomBytes(16).toString('base64'), members);
+                }
+            }
+            const teams = await backend.getTeams().catch(() => []);
+            for (const [teamKey, panel] of teamPanels) {
+                const team = teams.find(t => t.key === teamKey);
+                if (!team) { continue; }
+                const members = await backend.getTeamMembers(team);
+                panel.webview.html = getTeamInfoHtml(team, members, crypto.randomBytes(16).toString('base64'));
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        registerCommand('adoBacklog.signIn', async () => {
+            if (await backend.signIn()) {
+                vscode.window.showInformationMessage('Signed in to Azure DevOps.');
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        registerCommand('adoBacklog.setup', async () => {
+            if (!(await runSetupWizard(authStrategyFactory))) { return; }
+            // The wizard signs in with its own strategy; make sure the service picks it up
+            await backend.whenReady();
+            if (!backend.isSignedIn()) {
+                await backend.signIn();
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        registerCommand('adoBacklog.switchProfile', async () => {
+            const name = await pickProfile();
+            if (name !== undefined && name !== backend.getProfile().name) {
+                await setActiveProfile(name);
+                vscode.window.showInformationMessage(`Switched to Azure DevOps profile "${name}".`);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        registerCommand('adoBacklog.signOut', async () => {
+            const outbox = backend.getOutboxState();
+            const unsent = outbox.pending.length + outbox.conflicts.length;
+            if (unsent > 0) {
+                const choice = await vscode.window.showWarningMessage(
+                    `${unsent} work item${unsent === 1 ? ' has' : 's have'} edits made offline that haven't been sent. Signing out discards them.`,
+                    { modal: true },
+                    'Sign Out'
+                );
+                if (choice !== 'Sign Out') return;
+            }
+            await backend.signOut();
+            vscode.window.showInformationMessage('Signed out of Azure DevOps.');
+        })
+    );
+
+    // Recording captures the requests behind what the tree shows, for attaching to bug reports
+    const recordingStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 48);
+    recordingStatus.text = '$(record) Recording ADO requests';
+    recordingStatus.tooltip = 'Click to stop recording and save the requests';
+    recordingStatus.command = 'adoBacklog.stopRecording';
+    recordingStatus.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+    context.subscriptions.push(
+        recordingStatus,
+        registerCommand('adoBacklog.startRecording', () => {
+            if (!(backend instanceof AdoService) || backend.isReplaying()) {
+                vscode.window.showWarningMessage('Requests can only be recorded while connected to Azure DevOps.');
+                return;
+            }
+            backend.startRecording();
+            recordingStatus.show();
+            vscode.window.showInformationMessage('Recording Azure DevOps requests. Reproduce the problem, then run "ADO: Stop Recording".');
+        }),
+        registerCommand('adoBacklog.stopRecording', async () => {
+            const cassette = backend instanceof AdoService ? backend.stopRecording() : undefined;
+            recordingStatus.hide();
+            if (!cassette) {
+                vscode.window.showWarningMessage('Nothing is being recorded.');
+                return;
+            }
+            const uri = await vscode.window.showSaveDialog({
+                title: 'Save Recorded Requests',
+                defaultUri: vscode.Uri.file(`ado-recording-${cassette.recordedAt.slice(0, 10)}.json`),
+                filters: { 'JSON': ['json'] }
+            });
+            if (!uri) return;
+            saveCassette(uri.fsPath, cassette);
+            const choice = await vscode.window.showInformationMessage(
+                `Saved ${cassette.entries.length} requests with tokens and email addresses removed. Review the file before sharing it.`,
+                'Open'
+            );
+            if (choice === 'Open') {
+                vscode.window.showTextDocument(uri);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        registerCommand('adoBacklog.testConnection', async () => {
+            const stages = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Testing Azure DevOps connection...'
+            }, () => backend.testConnection());
+
+            const failed = stages.find(s => !s.ok);
+            const detail = stages.map(s => `${s.ok ? '\u2714' : '\u2716'} ${s.name}: ${s.detail}`).join('\n');
+            if (failed) {
+                showError(`Connection test failed at the ${failed.name} stage.`, failed.detail, { modal: true, detail });
+            } else {
+                vscode.window.showInformationMessage(`Connected to Azure DevOps profile "${backend.getProfile().name}".`, { modal: true, detail });
+            }
+        })
+    );
 
-    vscode.window.createTreeView('adoBacklog', {
+    const treeView = vscode.window.createTreeView('adoBacklog', {
         treeDataProvider: backlogProvider,
         dragAndDropController: backlogProvider
     });
+    context.subscriptions.push(
+        treeView,
+        treeView.onDidCollapseElement(e => backlogProvider.cancelLoading(e.element))
+    );
+
+    // Surface rate limiting so a slow tree has a visible reason
+    const throttleStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+    throttleStatus.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+    context.subscriptions.push(
+        throttleStatus,
+        backend.onDidChangeThrottling(throttle => {
+            if (!throttle) {
+                throttleStatus.hide();
+                return;
+            }
+            const seconds = Math.max(1, Math.ceil((throttle.retryAt - Date.now()) / 1000));
+            throttleStatus.text = '$(watch) ADO throttled';
+            throttleStatus.tooltip = `Azure DevOps is rate limiting requests${throttle.resource ? ` (${throttle.resource})` : ''}. Retrying in ${seconds}s.`;
+            throttleStatus.show();
+        })
+    );
+
+    // Edits made offline wait in an outbox until Azure DevOps can be reached again
+    const outboxStatus = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 47);
+    outboxStatus.command = 'adoBacklog.sendPendingEdits';
+    let reportedConflicts = new Set<number>();
+    function updateOutboxStatus(outbox: OutboxState) {
+        if (outbox.pending.length === 0 && outbox.conflicts.length === 0) {
+            outboxStatus.hide();
+            return;
+        }
+        outboxStatus.text = [
+            outbox.pending.length > 0 ? `$(cloud-upload) ${outbox.pending.length} pending` : '',
+            outbox.conflicts.length > 0 ? `$(warning) ${outbox.conflicts.length} rejected` : ''
+        ].filter(Boolean).join(' ');
+        outboxStatus.tooltip = [
+            outbox.pending.length > 0 ? `Edits to ${outbox.pending.length} work items were made offline and will be sent once Azure DevOps can be reached. Click to try now.` : '',
+            outbox.conflicts.length > 0 ? `Azure DevOps rejected the offline edits of ${outbox.conflicts.map(c => `#${c.workItemId}`).join(', ')}.` : ''
+        ].filter(Boolean).join('\n');
+        outboxStatus.backgroundColor = outbox.conflicts.length > 0 ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+        outboxStatus.show();
+    }
+
+    // Each work item whose offline edits were rejected is reported once, with ways to deal with it
+    async function reportConflicts(outbox: OutboxState) {
+        const conflicts = outbox.conflicts.filter(c => !reportedConflicts.has(c.workItemId));
+        reportedConflicts = new Set(outbox.conflicts.map(c => c.workItemId));
+        for (const conflict of conflicts) {
+            const choice = await vscode.window.showWarningMessage(
+                `Your offline edits to #${conflict.workItemId} couldn't be saved: ${conflict.message}`,
+                'Open in Browser',
+                'Discard Edits'
+            );
+            if (choice === 'Open in Browser') {
+                vscode.env.openExternal(vscode.Uri.parse(getWorkItemWebUrl(backend.getProfile(), conflict.workItemId)));
+            } else if (choice === 'Discard Edits') {
+                await backend.discardPendingEdits(conflict.workItemId);
+            }
+        }
+    }
+
+    context.subscriptions.push(
+        outboxStatus,
+        backend.onDidChangeOutbox(outbox => {
+            updateOutboxStatus(outbox);
+            reportConflicts(outbox).catch(error => showAdoError('Failed to resolve queued edits', error));
+        }),
+        registerCommand('adoBacklog.sendPendingEdits', async () => {
+            await backend.sendPendingEdits();
+            const outbox = backend.getOutboxState();
+            if (outbox.pending.length > 0) {
+                vscode.window.showWarningMessage(`Azure DevOps still can't be reached. Edits to ${outbox.pending.length} work items will be sent once it can.`);
+            }
+        }),
+        registerCommand('adoBacklog.discardPendingEdits', async (item) => {
+            if (!item?.workItem) return;
+            const choice = await vscode.window.showWarningMessage(
+                `Discard the edits made offline to #${item.workItem.id}? They haven't been saved to Azure DevOps.`,
+                { modal: true },
+                'Discard'
+            );
+            if (choice === 'Discard') {
+                await backend.discardPendingEdits(item.workItem.id);
+            }
+        })
+    );
+    updateOutboxStatus(backend.getOutboxState());
+
+    // Edits queued offline are only saved later, so don't claim they already were
+    function showSaved(workItemId: number, message: string) {
+        if (backend.getOutboxState().pending.includes(workItemId)) {
+            vscode.window.showInformationMessage(`Azure DevOps can't be reached. #${workItemId} will be updated once it can.`);
+        } else {
+            vscode.window.showInformationMessage(message);
+        }
+    }
+
+    // Loading progress wins over the sync status; small loads finish too quickly to be worth a message
+    let fetchProgress: FetchProgress | undefined;
+    function updateTreeMessage() {
+        const state = backend.getSyncState();
+        treeView.message = fetchProgress && fetchProgress.total > MAX_BATCH_SIZE
+            ? `Loading work items… ${fetchProgress.loaded.toLocaleString()} of ${fetchProgress.total.toLocaleString()}`
+            : state.error ? `Sync with Azure DevOps failed: ${state.error}`
+            : state.stale ? 'Showing cached work items, syncing with Azure DevOps…'
+            : undefined;
+    }
+
+    // Show cached data straight away and say so while the background sync runs
+    let finishSyncProgress: (() => void) | undefined;
+    context.subscriptions.push(
+        backend.onDidChangeSyncState(state => {
+            if (state.syncing && !finishSyncProgress) {
+                vscode.window.withProgress({ location: { viewId: 'adoBacklog' } }, () => new Promise<void>(resolve => {
+                    finishSyncProgress = resolve;
+                }));
+            } else if (!state.syncing && finishSyncProgress) {
+                finishSyncProgress();
+                finishSyncProgress = undefined;
+            }
+            updateTreeMessage();
+        }),
+        backend.onDidSync(() => backlogProvider.refresh()),
+        backend.onDidChangeWorkItems(ids => backlogProvider.refreshWorkItems(ids)),
+        backend.onDidChangeFetchProgress(progress => {
+            fetchProgress = progress;
+            updateTreeMessage();
+        })
+    );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.refresh', () => {
-            adoService.clearCache();
+        registerCommand('adoBacklog.refresh', () => {
+            backend.clearCache();
             backlogProvider.refreshImmediate();
+            backend.sync();
         })
     );
 
     // Refresh single work item and its children
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.refreshItem', async (item) => {
+        registerCommand('adoBacklog.refreshItem', async (item) => {
             if (item && item.workItem) {
                 const workItemId = item.workItem.id!;
-                adoService.invalidateWorkItemCache(workItemId);
-                backlogProvider.refreshImmediate(item);
+                await backend.sync();
+                backend.invalidateWorkItemCache(workItemId);
 
                 // Refresh open detail panel if one exists for this work item
                 const panel = openPanels.get(workItemId);
                 if (panel) {
-                    const freshWorkItem = await adoService.getWorkItem(workItemId);
+                    const freshWorkItem = await backend.getWorkItem(workItemId);
                     if (freshWorkItem) {
                         const nonce = crypto.randomBytes(16).toString('base64');
-                        const members = await adoService.getAllTeamMembers();
+                        const members = await backend.getAllTeamMembers();
+                        panelItems.set(workItemId, freshWorkItem);
                         panel.webview.html = getWorkItemHtml(freshWorkItem, nonce, members);
                     }
                 }
@@ -51,7 +446,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Search command
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.search', async () => {
+        registerCommand('adoBacklog.search', async () => {
             const searchText = await vscode.window.showInputBox({
                 prompt: 'Search work items by title or ID',
                 placeHolder: 'Enter search text...',
@@ -70,7 +465,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Filter by iteration
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.filterByIteration', async () => {
+        registerCommand('adoBacklog.filterByIteration', async () => {
             const iteration = await vscode.window.showInputBox({
                 prompt: 'Filter by iteration path',
                 placeHolder: 'e.g., Sprint 1, 2026 Q1, etc.',
@@ -89,7 +484,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Filter by tags
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.filterByTags', async () => {
+        registerCommand('adoBacklog.filterByTags', async () => {
             const tagsInput = await vscode.window.showInputBox({
                 prompt: 'Filter by tags (comma-separated for multiple)',
                 placeHolder: 'e.g., bug, high-priority',
@@ -109,7 +504,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Filter by assigned to
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.filterByAssignedTo', async () => {
+        registerCommand('adoBacklog.filterByAssignedTo', async () => {
             const assignedTo = await vscode.window.showInputBox({
                 prompt: 'Filter by assigned to (partial name match)',
                 placeHolder: 'e.g., John Doe, joe@company.com',
@@ -128,25 +523,56 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Clear all filters
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.clearFilters', () => {
+        registerCommand('adoBacklog.clearFilters', () => {
             backlogProvider.clearFilters();
             vscode.window.showInformationMessage('All filters cleared');
         })
     );
 
+    // Sort and group the tree, or show it as a flat list
+    const saveLayout = async (layout: TreeLayout) => {
+        applyLayout(layout);
+        await context.workspaceState.update(layoutKey, layout);
+    };
+    const showAs = (view: ViewMode) => saveLayout({ ...backlogProvider.getLayout(), view });
+    context.subscriptions.push(
+        registerCommand('adoBacklog.showAsList', () => showAs('list')),
+        registerCommand('adoBacklog.showAsTree', () => showAs('tree')),
+        registerCommand('adoBacklog.sortBy', async () => {
+            const layout = backlogProvider.getLayout();
+            const picked = await vscode.window.showQuickPick(SORT_MODES.map(s => ({
+                label: s.label,
+                description: s.mode === layout.sortBy ? 'current' : undefined,
+                detail: s.detail,
+                mode: s.mode
+            })), { title: 'Sort Work Items By' });
+            if (picked) await saveLayout({ ...layout, sortBy: picked.mode });
+        }),
+        registerCommand('adoBacklog.groupBy', async () => {
+            const layout = backlogProvider.getLayout();
+            const picked = await vscode.window.showQuickPick(GROUP_MODES.map(g => ({
+                label: g.icon ? `$(${g.icon}) ${g.label}` : g.label,
+                description: g.mode === layout.groupBy ? 'current' : undefined,
+                mode: g.mode
+            })), { title: 'Group Top-Level Work Items By' });
+            if (picked) await saveLayout({ ...layout, groupBy: picked.mode });
+        })
+    );
+
     // Load more items
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.loadMore', (parentKey: string) => {
+        registerCommand('adoBacklog.loadMore', (parentKey: string) => {
             backlogProvider.loadMore(parentKey);
         })
     );
 
     // Show team info
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.showTeamInfo', async (item) => {
-            if (item && item.type === 'team') {
-                const teamName = item.label;
-                const members = await adoService.getTeamMembers(teamName);
+        registerCommand('adoBacklog.showTeamInfo', async (item) => {
+            if (item && item.type === 'team' && item.team) {
+                const team: BacklogTeam = item.team;
+                const teamName = team.name;
+                const members = await backend.getTeamMembers(team);
                 const nonce = crypto.randomBytes(16).toString('base64');
 
                 const panel = vscode.window.createWebviewPanel(
@@ -158,17 +584,30 @@ export function activate(context: vscode.ExtensionContext) {
                     }
                 );
 
-                panel.webview.html = getTeamInfoHtml(teamName, members, nonce);
+                teamPanels.set(team.key, panel);
+                panel.onDidDispose(() => { teamPanels.delete(team.key); });
+
+                panel.webview.html = getTeamInfoHtml(team, members, nonce);
+
+                panel.webview.onDidReceiveMessage(
+                    message => {
+                        if (message.command === 'signIn') {
+                            vscode.commands.executeCommand('adoBacklog.signIn');
+                        }
+                    },
+                    undefined,
+                    context.subscriptions
+                );
             }
         })
     );
 
     // Open work item
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.openItem', async (item) => {
+        registerCommand('adoBacklog.openItem', async (item) => {
             if (item && item.workItem) {
                 const nonce = crypto.randomBytes(16).toString('base64');
-                const members = await adoService.getAllTeamMembers();
+                const members = await backend.getAllTeamMembers();
                 const panel = vscode.window.createWebviewPanel(
                     'adoWorkItem',
                     `${item.workItem.fields['System.Title']}`,
@@ -180,15 +619,64 @@ export function activate(context: vscode.ExtensionContext) {
 
                 const workItemId = item.workItem.id!;
                 openPanels.set(workItemId, panel);
-                panel.onDidDispose(() => { openPanels.delete(workItemId); });
+                panelItems.set(workItemId, item.workItem);
+                panel.onDidDispose(() => {
+                    openPanels.delete(workItemId);
+                    panelItems.delete(workItemId);
+                });
 
                 panel.webview.html = getWorkItemHtml(item.workItem, nonce, members);
 
+                // Edits waiting on the user to pick a version of each conflicting field
+                let pendingConflict: { changes: Record<string, any>; conflicts: FieldConflict[]; theirs: WorkItem } | undefined;
+
+                // Saves against the revision the edits were based on. When someone else saved in the
+                // meantime, their changes are merged in and only fields both sides changed are asked about.
+                const saveChanges = async (changes: Record<string, any>, base: WorkItem, merged: boolean): Promise<void> => {
+                    let updated = base;
+                    try {
+                        if (Object.keys(changes).length > 0) {
+                            updated = await backend.updateWorkItem(workItemId, changes, base.rev);
+                        }
+                    } catch (error: any) {
+                        if (!isRevisionConflict(error)) throw error;
+                        const theirs = await backend.getWorkItem(workItemId);
+                        if (!theirs) throw error;
+                        const merge = mergeFields(base.fields || {}, changes, theirs.fields || {});
+                        if (merge.conflicts.length === 0) {
+                            return saveChanges(merge.changes, theirs, true);
+                        }
+                        pendingConflict = { ...merge, theirs };
+                        const workItemType = theirs.fields?.['System.WorkItemType'] || '';
+                        panel.webview.postMessage({
+                            command: 'conflict',
+                            conflicts: merge.conflicts.map(c => ({
+                                field: c.field,
+                                label: getFieldLabel(c.field, workItemType),
+                                original: describeFieldValue(c.original),
+                                mine: describeFieldValue(c.mine),
+                                theirs: describeFieldValue(c.theirs)
+                            }))
+                        });
+                        return;
+                    }
+
+                    panelItems.set(workItemId, updated);
+                    if (merged) {
+                        // Show what the other changes did to the item
+                        const members = await backend.getAllTeamMembers();
+                        panel.webview.html = getWorkItemHtml(updated, crypto.randomBytes(16).toString('base64'), members);
+                    } else {
+                        panel.webview.postMessage({ command: 'saved' });
+                    }
+                    showSaved(workItemId, `Work Item #${workItemId} updated successfully!`);
+                };
+
                 panel.webview.onDidReceiveMessage(
                     async message => {
                         switch (message.command) {
                             case 'getStates':
-                                const states = await adoService.getAvailableStates(
+                                const states = await backend.getAvailableStates(
                                     message.workItemType,
                                     message.currentState
                                 );
@@ -200,13 +688,30 @@ export function activate(context: vscode.ExtensionContext) {
                                 return;
                             case 'save':
                                 try {
-                                    await adoService.updateWorkItem(item.workItem.id!, message.fields);
-                                    backlogProvider.refreshImmediate();
-                                    vscode.window.showInformationMessage(`Work Item #${item.workItem.id} updated successfully!`);
+                                    pendingConflict = undefined;
+                                    const changes = getChangedFields(message.original || {}, message.fields);
+                                    if (Object.keys(changes).length === 0) {
+                                        vscode.window.showInformationMessage('No changes to save.');
+                                        return;
+                                    }
+                                    await saveChanges(changes, panelItems.get(workItemId) || item.workItem, false);
+                                } catch (error: any) {
+                                    showAdoError('Failed to save work item', error, { workItemUrl: getWorkItemWebUrl(backend.getProfile(), workItemId) });
+                                }
+                                return;
+                            case 'resolveConflict':
+                                if (!pendingConflict) return;
+                                try {
+                                    const { changes, conflicts, theirs } = pendingConflict;
+                                    pendingConflict = undefined;
+                                    await saveChanges({ ...changes, ...resolveConflicts(conflicts, message.choices || {}) }, theirs, true);
                                 } catch (error: any) {
-                                    vscode.window.showErrorMessage(`Failed to save work item: ${error.message}`);
+                                    showAdoError('Failed to save work item', error, { workItemUrl: getWorkItemWebUrl(backend.getProfile(), workItemId) });
                                 }
                                 return;
+                            case 'signIn':
+                                vscode.commands.executeCommand('adoBacklog.signIn');
+                                return;
                             case 'delete':
                                 const confirmDelete = await vscode.window.showWarningMessage(
                                     `Delete work item #${item.workItem.id}?`,
@@ -214,10 +719,13 @@ export function activate(context: vscode.ExtensionContext) {
                                     'Delete'
                                 );
                                 if (confirmDelete === 'Delete') {
-                                    await adoService.deleteWorkItem(item.workItem.id!);
-                                    vscode.window.showInformationMessage('Work item deleted');
-                                    panel.dispose();
-                                    backlogProvider.refreshImmediate();
+                                    try {
+                                        await backend.deleteWorkItem(item.workItem.id!);
+                                        vscode.window.showInformationMessage('Work item deleted');
+                                        panel.dispose();
+                                    } catch (error) {
+                                        showAdoError('Failed to delete work item', error, { workItemUrl: getWorkItemWebUrl(backend.getProfile(), workItemId) });
+                                    }
                                 }
                                 return;
                         }
@@ -231,7 +739,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Delete work item from context menu
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.deleteItem', async (item) => {
+        registerCommand('adoBacklog.deleteItem', async (item) => {
             if (item && item.workItem) {
                 const confirmDelete = await vscode.window.showWarningMessage(
                     `Delete work item #${item.workItem.id}: ${item.workItem.fields['System.Title']}?`,
@@ -239,9 +747,12 @@ export function activate(context: vscode.ExtensionContext) {
                     'Delete'
                 );
                 if (confirmDelete === 'Delete') {
-                    await adoService.deleteWorkItem(item.workItem.id!);
-                    vscode.window.showInformationMessage('Work item deleted');
-                    backlogProvider.refreshImmediate();
+                    try {
+                        await backend.deleteWorkItem(item.workItem.id!);
+                        vscode.window.showInformationMessage('Work item deleted');
+                    } catch (error) {
+                        showAdoError('Failed to delete work item', error, { workItemUrl: getWorkItemWebUrl(backend.getProfile(), item.workItem.id!) });
+                    }
                 }
             }
         })
@@ -249,154 +760,324 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Change state from context menu
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.changeState', async (item) => {
+        registerCommand('adoBacklog.changeState', async (item) => {
             if (item && item.workItem) {
                 const workItemType = item.workItem.fields['System.WorkItemType'];
                 const currentState = item.workItem.fields['System.State'];
-                const states = await adoService.getAvailableStates(workItemType, currentState);
+                const states = await backend.getAvailableStates(workItemType, currentState);
                 const selectedState = await vscode.window.showQuickPick(states, {
                     placeHolder: `Current state: ${currentState}`,
                     title: 'Select new state'
                 });
 
                 if (selectedState && selectedState !== currentState) {
-                    await adoService.updateWorkItem(item.workItem.id!, { 'System.State': selectedState });
-                    vscode.window.showInformationMessage(`State changed to ${selectedState}`);
-                    backlogProvider.refreshImmediate();
+                    try {
+                        await backend.updateWorkItem(item.workItem.id!, { 'System.State': selectedState });
+                        showSaved(item.workItem.id!, `State changed to ${selectedState}`);
+                    } catch (error) {
+                        showAdoError('Failed to change state', error, { workItemUrl: getWorkItemWebUrl(backend.getProfile(), item.workItem.id!) });
+                    }
                 }
             }
         })
     );
 
-    // Create New Epic (from area path)
-    context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.createEpic', async (item) => {
-            const title = await vscode.window.showInputBox({
-                prompt: 'Enter Epic title',
-                placeHolder: 'Epic title...'
-            });
+    // Bulk edits act on every selected work item and report how each one fared
+    function updateSelected(title: string, workItems: WorkItem[], fieldsOf: (workItem: WorkItem) => Record<string, any>) {
+        return runBulkEdit(title, workItems, onProgress =>
+            backend.updateWorkItems(workItems.map(workItem => ({ workItemId: workItem.id!, fields: fieldsOf(workItem) })), onProgress)
+        );
+    }
 
-            if (!title) return;
+    // Offers the work items on the level above the given nodes in their teams' backlogs, as drag and drop would accept
+    async function pickParent(nodes: any[], title: string): Promise<WorkItem | undefined> {
+        const levelIndex = nodes[0].levelIndex;
+        if (nodes.some(node => node.levelIndex !== levelIndex)) {
+            showError('Select work items from one backlog level to move them together.');
+            return undefined;
+        }
+        const levels = getTreeLevels(await backend.getHierarchy());
+        const parentLevel = levels[levelIndex - 1];
+        if (!parentLevel) {
+            showError(`${levels[levelIndex]?.name || 'These'} items are on the top level; drag them onto a team to move them.`);
+            return undefined;
+        }
+        const teams = [...new Map(nodes.filter(node => node.team).map(node => [node.team.key, node.team as BacklogTeam])).values()];
+        const trees = await Promise.all(teams.map(team => backend.getBacklogTree(team, levels[0].workItemTypes)));
+        const candidates = [...new Map(trees.flatMap(tree => tree.getAll())
+            .filter(w => parentLevel.workItemTypes.includes(w.fields!['System.WorkItemType']))
+            .map(w => [w.id!, w])).values()];
+        const picked = await vscode.window.showQuickPick(candidates.map(w => ({
+            label: `#${w.id} ${w.fields!['System.Title']}`,
+            description: `${w.fields!['System.WorkItemType']} · ${w.fields!['System.State']}`,
+            workItem: w
+        })), { title, matchOnDescription: true });
+        return picked?.workItem;
+    }
 
-            const customFieldValues = await promptRequiredCustomFields('Epic');
-            if (customFieldValues === undefined) { return; }
+    const selectionLabel = (workItems: WorkItem[]) => `${workItems.length} work item${workItems.length === 1 ? '' : 's'}`;
 
-            const areaPath = item.teamName || item.label;
-            const config = vscode.workspace.getConfiguration('adoBacklog');
-            const defaultIteration = config.get<string>('defaultIterationPath') || areaPath.split('\\')[0];
-
-            try {
-                const newEpic = await adoService.createWorkItem('Epic', {
-                    'System.Title': title,
-                    'System.AreaPath': areaPath,
-                    'System.IterationPath': defaultIteration,
-                    ...customFieldValues
-                });
-
-                vscode.window.showInformationMessage(`Epic #${newEpic.id} created: ${title}`);
-                backlogProvider.refreshImmediate();
-            } catch (error: any) {
-                vscode.window.showErrorMessage(`Failed to create Epic: ${error.message}`);
+    context.subscriptions.push(
+        registerCommand('adoBacklog.bulkChangeState', async (item, selected) => {
+            const workItems: WorkItem[] = getSelectedNodes(item, selected).map(node => node.workItem);
+            if (workItems.length === 0) return;
+            // Offer every state any of the items can move to; items that can't are reported as failures
+            const current = [...new Map(workItems.map(w => [`${w.fields!['System.WorkItemType']}|${w.fields!['System.State']}`, w])).values()];
+            const states = await Promise.all(current.map(w => backend.getAvailableStates(w.fields!['System.WorkItemType'], w.fields!['System.State'])));
+            const state = await vscode.window.showQuickPick([...new Set(states.flat())], {
+                title: `Change state of ${selectionLabel(workItems)}`
+            });
+            if (!state) return;
+            await updateSelected('Change State', workItems, () => ({ 'System.State': state }));
+        }),
+        registerCommand('adoBacklog.bulkAssign', async (item, selected) => {
+            const workItems: WorkItem[] = getSelectedNodes(item, selected).map(node => node.workItem);
+            if (workItems.length === 0) return;
+            const members = await backend.getAllTeamMembers();
+            const picked = await vscode.window.showQuickPick([
+                { label: '$(circle-slash) Unassigned', assignTo: null as string | null },
+                ...members.map(m => ({ label: m.displayName, description: m.uniqueName, assignTo: m.uniqueName as string | null }))
+            ], { title: `Assign ${selectionLabel(workItems)}`, matchOnDescription: true });
+            if (!picked) return;
+            await updateSelected('Assign', workItems, () => ({ 'System.AssignedTo': picked.assignTo }));
+        }),
+        registerCommand('adoBacklog.bulkSetIteration', async (item, selected) => {
+            const workItems: WorkItem[] = getSelectedNodes(item, selected).map(node => node.workItem);
+            if (workItems.length === 0) return;
+            const iteration = await vscode.window.showInputBox({
+                title: `Set iteration of ${selectionLabel(workItems)}`,
+                prompt: 'Iteration path',
+                value: workItems[0].fields!['System.IterationPath'] || backend.getProfile().defaultIterationPath || '',
+                validateInput: value => value.trim() ? undefined : 'Enter an iteration path'
+            });
+            if (iteration === undefined) return;
+            await updateSelected('Set Iteration', workItems, () => ({ 'System.IterationPath': iteration.trim() }));
+        }),
+        registerCommand('adoBacklog.bulkAddTags', async (item, selected) => {
+            const workItems: WorkItem[] = getSelectedNodes(item, selected).map(node => node.workItem);
+            if (workItems.length === 0) return;
+            const input = await vscode.window.showInputBox({
+                title: `Add tags to ${selectionLabel(workItems)}`,
+                prompt: 'Tags to add (comma-separated)',
+                placeHolder: 'e.g. groomed, needs-design'
+            });
+            const tags = (input || '').split(',').map(t => t.trim()).filter(Boolean);
+            if (tags.length === 0) return;
+            await updateSelected('Add Tags', workItems, w => ({ 'System.Tags': addTags(w.fields!['System.Tags'], tags) }));
+        }),
+        registerCommand('adoBacklog.bulkRemoveTags', async (item, selected) => {
+            const workItems: WorkItem[] = getSelectedNodes(item, selected).map(node => node.workItem);
+            if (workItems.length === 0) return;
+            const present = [...new Set(workItems.flatMap(w => parseTags(w.fields!['System.Tags'])))].sort();
+            if (present.length === 0) {
+                vscode.window.showInformationMessage('None of the selected work items have tags.');
+                return;
+            }
+            const tags = await vscode.window.showQuickPick(present, {
+                title: `Remove tags from ${selectionLabel(workItems)}`,
+                canPickMany: true
+            });
+            if (!tags || tags.length === 0) return;
+            await updateSelected('Remove Tags', workItems, w => ({ 'System.Tags': removeTags(w.fields!['System.Tags'], tags) }));
+        }),
+        registerCommand('adoBacklog.bulkSetField', async (item, selected) => {
+            const workItems: WorkItem[] = getSelectedNodes(item, selected).map(node => node.workItem);
+            if (workItems.length === 0) return;
+            // Custom fields configured for any of the selected types
+            const types = [...new Set(workItems.map(w => w.fields!['System.WorkItemType'] as string))];
+            const fields = [...new Map(types.flatMap(getCustomFieldsForType).map(f => [f.fieldReferenceName, f])).values()];
+            if (fields.length === 0) {
+                vscode.window.showInformationMessage('No custom fields are configured for these work item types. Add some with "ADO: Manage Custom Fields".');
+                return;
+            }
+            const field = await vscode.window.showQuickPick(fields.map(f => ({ label: f.label, description: f.fieldReferenceName, field: f })), {
+                title: `Set a field of ${selectionLabel(workItems)}`
+            });
+            if (!field) return;
+            const value = field.field.type === 'dropdown' && field.field.options?.length
+                ? await vscode.window.showQuickPick(field.field.options, { title: `Set ${field.label}` })
+                : await vscode.window.showInputBox({ title: `Set ${field.label}`, prompt: 'Leave empty to clear the field' });
+            if (value === undefined) return;
+            await updateSelected(`Set ${field.label}`, workItems, () => ({ [field.field.fieldReferenceName]: value === '' ? null : value }));
+        }),
+        registerCommand('adoBacklog.bulkMove', async (item, selected) => {
+            const nodes = getSelectedNodes(item, selected);
+            if (nodes.length === 0) return;
+            const parent = await pickParent(nodes, `Move ${selectionLabel(nodes)} under`);
+            if (!parent) return;
+            const workItems: WorkItem[] = nodes.map(node => node.workItem);
+            await runBulkEdit(`Move under #${parent.id}`, workItems, onProgress =>
+                backend.moveWorkItems(workItems.map(w => w.id!), parent.id!, onProgress)
+            );
+        }),
+        registerCommand('adoBacklog.assignParent', async (item, selected) => {
+            const nodes = getSelectedNodes(item, selected);
+            if (nodes.length === 0) return;
+            const parent = await pickParent(nodes, `Assign a parent to ${nodes.length === 1 ? `#${nodes[0].workItem.id}` : selectionLabel(nodes)}`);
+            if (!parent) return;
+            const workItems: WorkItem[] = nodes.map(node => node.workItem);
+            if (workItems.length > 1) {
+                await runBulkEdit(`Assign parent #${parent.id}`, workItems, onProgress =>
+                    backend.moveWorkItems(workItems.map(w => w.id!), parent.id!, onProgress)
+                );
+                return;
+            }
+            // An item whose parent is in another area has to leave it first; an item has only one parent
+            const workItem = workItems[0];
+            if (workItem.fields?.['System.Parent'] !== undefined) {
+                await backend.removeParentLink(workItem.id!);
             }
+            await backend.addParentLink(workItem.id!, parent.id!);
+            vscode.window.showInformationMessage(backend.getOutboxState().pending.includes(workItem.id!)
+                ? `Azure DevOps can't be reached. Work item #${workItem.id} will be placed under #${parent.id} once it can.`
+                : `Work item #${workItem.id} is now under #${parent.id} ${parent.fields!['System.Title']}`
+            );
+        }),
+        registerCommand('adoBacklog.bulkDelete', async (item, selected) => {
+            const workItems: WorkItem[] = getSelectedNodes(item, selected).map(node => node.workItem);
+            if (workItems.length === 0) return;
+            const confirmDelete = await vscode.window.showWarningMessage(
+                `Delete ${selectionLabel(workItems)}?`,
+                { modal: true, detail: workItems.map(w => `#${w.id}: ${w.fields!['System.Title']}`).join('\n') },
+                'Delete'
+            );
+            if (confirmDelete !== 'Delete') return;
+            await runBulkEdit('Delete', workItems, onProgress => backend.deleteWorkItems(workItems.map(w => w.id!), onProgress));
         })
     );
 
-    // Create New Feature (from epic)
+    // Backlog order: the selection moves to either end of its parent's children
+    const moveToEdge = async (item: any, selected: any[] | undefined, position: 'top' | 'bottom') => {
+        const nodes = getSelectedNodes(item, selected);
+        const parent = nodes.length > 0 ? backlogProvider.getBacklogParent(nodes[0]) : undefined;
+        if (!parent) return;
+        if (nodes.some(node => backlogProvider.getBacklogParent(node) !== parent)) {
+            showError('Select work items under one parent to reorder them together.');
+            return;
+        }
+        await backlogProvider.reorderWorkItems(parent, nodes.map(node => node.workItem.id), position);
+    };
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.createFeature', async (item) => {
-            if (!item || !item.workItem) return;
+        registerCommand('adoBacklog.moveToTop', (item, selected) => moveToEdge(item, selected, 'top')),
+        registerCommand('adoBacklog.moveToBottom', (item, selected) => moveToEdge(item, selected, 'bottom'))
+    );
 
-            const title = await vscode.window.showInputBox({
-                prompt: 'Enter Feature title',
-                placeHolder: 'Feature title...'
-            });
+    // Create a work item on the level below a team or work item, e.g. a Feature under an Epic
+    async function createChildWorkItem(item: any, type?: string) {
+        if (!item) return;
+
+        const hierarchy = await backend.getHierarchy();
+        const levels = getTreeLevels(hierarchy);
+        const childLevel = item.type === 'team' ? levels[0] : levels[(item.levelIndex ?? -1) + 1];
+        if (!childLevel) return;
+        if (type && !childLevel.workItemTypes.includes(type)) {
+            showError(`${type} items can't be created under ${item.label}. New items there are ${childLevel.workItemTypes.join(' or ')}.`);
+            return;
+        }
 
-            if (!title) return;
+        let workItemType = type || childLevel.defaultWorkItemType;
+        if (!type && childLevel.workItemTypes.length > 1) {
+            const types = [childLevel.defaultWorkItemType, ...childLevel.workItemTypes.filter(t => t !== childLevel.defaultWorkItemType)];
+            const picked = await vscode.window.showQuickPick(types, {
+                placeHolder: `New ${childLevel.name} item under ${item.label}`
+            });
+            if (!picked) return;
+            workItemType = picked;
+        }
 
-            const customFieldValues = await promptRequiredCustomFields('Feature');
-            if (customFieldValues === undefined) { return; }
+        const title = await vscode.window.showInputBox({
+            prompt: `Enter ${workItemType} title`,
+            placeHolder: `${workItemType} title...`
+        });
 
-            try {
-                const newFeature = await adoService.createWorkItem('Feature', {
-                    'System.Title': title,
-                    'System.AreaPath': item.workItem.fields['System.AreaPath'],
-                    'System.IterationPath': item.workItem.fields['System.IterationPath'],
-                    ...customFieldValues
-                }, item.workItem.id);
+        if (!title) return;
 
-                vscode.window.showInformationMessage(`Feature #${newFeature.id} created: ${title}`);
-                backlogProvider.refreshImmediate();
-            } catch (error: any) {
-                vscode.window.showErrorMessage(`Failed to create Feature: ${error.message}`);
+        // Tasks can start with an estimate so they count towards the rollups straight away
+        const estimate: { [key: string]: number } = {};
+        if (childLevel.kind === 'task') {
+            const hours = await vscode.window.showInputBox({
+                prompt: 'Remaining work in hours (optional)',
+                placeHolder: 'e.g. 4',
+                validateInput: value => value.trim() === '' || (isFinite(Number(value)) && Number(value) >= 0) ? undefined : 'Enter a number of hours'
+            });
+            if (hours === undefined) return;
+            if (hours.trim() !== '') {
+                estimate[hierarchy.fields.RemainingWork] = Number(hours);
             }
-        })
-    );
-
-    // Create New User Story (from feature)
-    context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.createUserStory', async (item) => {
-            if (!item || !item.workItem) return;
+        }
 
-            const title = await vscode.window.showInputBox({
-                prompt: 'Enter User Story title',
-                placeHolder: 'User Story title...'
-            });
+        const customFieldValues = await promptRequiredCustomFields(workItemType);
+        if (customFieldValues === undefined) { return; }
 
-            if (!title) return;
+        // Top-level items take the team's area; children inherit area and iteration from their parent
+        let areaPath: string;
+        let iterationPath: string;
+        if (item.type === 'team') {
+            areaPath = item.team?.defaultAreaPath || item.label;
+            iterationPath = backend.getProfile().defaultIterationPath || areaPath.split('\\')[0];
+        } else {
+            areaPath = item.workItem.fields['System.AreaPath'];
+            iterationPath = item.workItem.fields['System.IterationPath'];
+        }
 
-            const customFieldValues = await promptRequiredCustomFields('User Story');
-            if (customFieldValues === undefined) { return; }
+        const newItem = await backend.createWorkItem(workItemType, {
+            'System.Title': title,
+            'System.AreaPath': areaPath,
+            'System.IterationPath': iterationPath,
+            ...estimate,
+            ...customFieldValues
+        }, item.workItem?.id);
 
-            try {
-                const newStory = await adoService.createWorkItem('User Story', {
-                    'System.Title': title,
-                    'System.AreaPath': item.workItem.fields['System.AreaPath'],
-                    'System.IterationPath': item.workItem.fields['System.IterationPath'],
-                    ...customFieldValues
-                }, item.workItem.id);
+        vscode.window.showInformationMessage(`${workItemType} #${newItem.id} created: ${title}`);
+    }
 
-                vscode.window.showInformationMessage(`User Story #${newStory.id} created: ${title}`);
-                backlogProvider.refreshImmediate();
-            } catch (error: any) {
-                vscode.window.showErrorMessage(`Failed to create User Story: ${error.message}`);
-            }
-        })
+    context.subscriptions.push(
+        registerCommand('adoBacklog.createChild', item => createChildWorkItem(item)),
+        registerCommand('adoBacklog.createTask', item => createChildWorkItem(item)),
+        // The create commands from before levels came from the process, kept for keybindings and scripts
+        registerCommand('adoBacklog.createEpic', item => createChildWorkItem(item, 'Epic')),
+        registerCommand('adoBacklog.createFeature', item => createChildWorkItem(item, 'Feature')),
+        registerCommand('adoBacklog.createUserStory', item => createChildWorkItem(item, 'User Story')),
+        registerCommand('adoBacklog.createBug', item => createChildWorkItem(item, 'Bug'))
     );
 
-    // Create New Bug (from feature)
+    // Log hours on a task: adds to Completed Work and lowers Remaining Work
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.createBug', async (item) => {
+        registerCommand('adoBacklog.logHours', async (item) => {
             if (!item || !item.workItem) return;
 
-            const title = await vscode.window.showInputBox({
-                prompt: 'Enter Bug title',
-                placeHolder: 'Bug title...'
+            const hierarchy = await backend.getHierarchy();
+            const { RemainingWork: remainingField, CompletedWork: completedField } = hierarchy.fields;
+            const workItem = await backend.getWorkItem(item.workItem.id) || item.workItem;
+            const remaining = Number(workItem.fields?.[remainingField]) || 0;
+            const completed = Number(workItem.fields?.[completedField]) || 0;
+
+            const validateHours = (value: string) =>
+                value.trim() !== '' && isFinite(Number(value)) && Number(value) >= 0 ? undefined : 'Enter a number of hours';
+            const logged = await vscode.window.showInputBox({
+                prompt: `Hours worked on #${workItem.id} (${completed}h done so far)`,
+                placeHolder: 'e.g. 1.5',
+                validateInput: validateHours
             });
+            if (logged === undefined) return;
+            const newRemaining = await vscode.window.showInputBox({
+                prompt: 'Remaining work (hours)',
+                value: String(Math.max(0, Math.round((remaining - Number(logged)) * 100) / 100)),
+                validateInput: validateHours
+            });
+            if (newRemaining === undefined) return;
 
-            if (!title) return;
-
-            const customFieldValues = await promptRequiredCustomFields('Bug');
-            if (customFieldValues === undefined) { return; }
-
-            try {
-                const newBug = await adoService.createWorkItem('Bug', {
-                    'System.Title': title,
-                    'System.AreaPath': item.workItem.fields['System.AreaPath'],
-                    'System.IterationPath': item.workItem.fields['System.IterationPath'],
-                    ...customFieldValues
-                }, item.workItem.id);
-
-                vscode.window.showInformationMessage(`Bug #${newBug.id} created: ${title}`);
-                backlogProvider.refreshImmediate();
-            } catch (error: any) {
-                vscode.window.showErrorMessage(`Failed to create Bug: ${error.message}`);
-            }
+            await backend.updateWorkItem(workItem.id!, {
+                [completedField]: completed + Number(logged),
+                [remainingField]: Number(newRemaining)
+            });
+            showSaved(workItem.id!, `Logged ${Number(logged)}h on #${workItem.id}; ${Number(newRemaining)}h remaining.`);
         })
     );
 
     // Manage Custom Fields
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.manageCustomFields', () => {
+        registerCommand('adoBacklog.manageCustomFields', async () => {
             const nonce = crypto.randomBytes(16).toString('base64');
             const panel = vscode.window.createWebviewPanel(
                 'adoCustomFields',
@@ -408,7 +1089,13 @@ export function activate(context: vscode.ExtensionContext) {
             const config = vscode.workspace.getConfiguration('adoBacklog');
             const customFields: CustomFieldConfig[] = config.get<CustomFieldConfig[]>('customFields') || [];
 
-            panel.webview.html = getManageCustomFieldsHtml(customFields, nonce);
+            // Offer the work item types of the project's process
+            const hierarchy = await backend.getHierarchy();
+            const workItemTypes = [...new Set([
+                ...getTreeLevels(hierarchy).flatMap(l => l.workItemTypes)
+            ])];
+
+            panel.webview.html = getManageCustomFieldsHtml(customFields, workItemTypes, nonce);
 
             panel.webview.onDidReceiveMessage(
                 async message => {
@@ -421,8 +1108,13 @@ export function activate(context: vscode.ExtensionContext) {
                         vscode.window.showInformationMessage('Custom fields saved.');
                         // Refresh the webview with updated data
                         const updated = vscode.workspace.getConfiguration('adoBacklog').get<CustomFieldConfig[]>('customFields') || [];
-                        panel.webview.html = getManageCustomFieldsHtml(updated, crypto.randomBytes(16).toString('base64'));
+                        panel.webview.html = getManageCustomFieldsHtml(updated, workItemTypes, crypto.randomBytes(16).toString('base64'));
                     } else if (message.command === 'importFromAdo') {
+                        if (!backend.isConfigured()) {
+                            showNotSignedInWarning();
+                            panel.webview.postMessage({ command: 'importResults', discovered: [] });
+                            return;
+                        }
                         // Standard fields the extension already handles
                         const standardFields = new Set([
                             'System.Id', 'System.Title', 'System.State', 'System.Reason',
@@ -443,13 +1135,13 @@ export function activate(context: vscode.ExtensionContext) {
                             'Microsoft.VSTS.Common.Priority',
                             'Microsoft.VSTS.Common.ValueArea'
                         ]);
-                        const wiTypes = ['Epic', 'Feature', 'User Story', 'Bug'];
+                        const wiTypes = workItemTypes;
                         const discovered: {referenceName: string; name: string; allowedValues: string[]; workItemTypes: string[]; alwaysRequired: boolean}[] = [];
                         const seen = new Map<string, typeof discovered[0]>();
 
                         for (const wit of wiTypes) {
                             try {
-                                const fields = await adoService.getWorkItemTypeFields(wit);
+                                const fields = await backend.getWorkItemTypeFields(wit);
                                 for (const f of fields) {
                                     if (standardFields.has(f.referenceName)) { continue; }
                                     if (seen.has(f.referenceName)) {
@@ -488,7 +1180,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Configure State Indicators
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.configureStateIndicators', () => {
+        registerCommand('adoBacklog.configureStateIndicators', () => {
             const nonce = crypto.randomBytes(16).toString('base64');
             const panel = vscode.window.createWebviewPanel(
                 'adoStateIndicators',
@@ -522,15 +1214,10 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Open work item in Azure DevOps browser
     context.subscriptions.push(
-        vscode.commands.registerCommand('adoBacklog.openInBrowser', async (item) => {
-            if (item && item.workItem) {
-                const config = vscode.workspace.getConfiguration('adoBacklog');
-                const orgUrl = config.get<string>('organizationUrl');
-                const project = config.get<string>('project');
-                if (orgUrl && project) {
-                    const workItemUrl = `${orgUrl}/${encodeURIComponent(project)}/_workitems/edit/${item.workItem.id}`;
-                    vscode.env.openExternal(vscode.Uri.parse(workItemUrl));
-                }
+        registerCommand('adoBacklog.openInBrowser', async (item) => {
+            if (item && item.workItem && backend.hasConnectionSettings()) {
+                const workItemUrl = getWorkItemWebUrl(backend.getProfile(), item.workItem.id);
+                vscode.env.openExternal(vscode.Uri.parse(workItemUrl));
             }
         })
     );
@@ -1028,6 +1715,23 @@ function getWorkItemHtml(workItem: any, nonce: string, members: {displayName: st
                 letter-spacing: 0;
                 margin-bottom: 8px;
             }
+            .conflict-table {
+                width: 100%;
+                border-collapse: collapse;
+            }
+            .conflict-table th, .conflict-table td {
+                text-align: left;
+                vertical-align: top;
+                padding: 6px 8px;
+                border-bottom: 1px solid var(--vscode-input-border, rgba(127,127,127,0.35));
+            }
+            .conflict-table label {
+                display: flex;
+                gap: 6px;
+                cursor: pointer;
+            }
+            .conflict-field { font-weight: 600; white-space: nowrap; }
+            .conflict-value { white-space: pre-wrap; word-break: break-word; }
         </style>
     </head>
     <body>
@@ -1109,6 +1813,21 @@ function getWorkItemHtml(workItem: any, nonce: string, members: {displayName: st
             </div>
         </div>
 
+        <div id="conflictOverlay" style="display:none; position:fixed; top:0; left:0; width:100%; height:100%; background:rgba(0,0,0,0.5); z-index:1000; align-items:center; justify-content:center;">
+            <div style="background:var(--vscode-editor-background); border:1px solid var(--vscode-input-border); border-radius:6px; padding:20px; width:90%; max-width:900px; max-height:80vh; overflow:auto;">
+                <div style="font-weight:bold; margin-bottom:8px;">This work item was changed by someone else</div>
+                <div style="margin-bottom:12px; opacity:0.8;">Their other changes have been kept. Choose which value to keep for each field you both changed.</div>
+                <table class="conflict-table">
+                    <thead><tr><th>Field</th><th>Original</th><th>Mine</th><th>Theirs</th></tr></thead>
+                    <tbody id="conflictRows"></tbody>
+                </table>
+                <div style="display:flex; gap:8px; margin-top:16px; justify-content:flex-end;">
+                    <button id="conflictCancel" style="padding:6px 14px; background:var(--vscode-button-secondaryBackground, #333); color:var(--vscode-button-secondaryForeground, #fff); border:none; cursor:pointer; border-radius:3px;">Cancel</button>
+                    <button id="conflictSave" style="padding:6px 14px; background:var(--vscode-button-background); color:var(--vscode-button-foreground); border:none; cursor:pointer; border-radius:3px;">Save with selection</button>
+                </div>
+            </div>
+        </div>
+
         <script nonce="${nonce}">
             const vscode = acquireVsCodeApi();
             let currentTags = ${JSON.stringify(tags)};
@@ -1612,7 +2331,7 @@ function getWorkItemHtml(workItem: any, nonce: string, members: {displayName: st
             renderTags();
 
             // --- Save / Delete ---
-            document.getElementById('saveBtn').addEventListener('click', function() {
+            function collectFields() {
                 const descriptionEditor = document.getElementById('descriptionEditor');
                 const acceptanceCriteriaEditor = document.getElementById('acceptanceCriteriaEditor');
 
@@ -1637,13 +2356,74 @@ function getWorkItemHtml(workItem: any, nonce: string, members: {displayName: st
                 document.querySelectorAll('.custom-field').forEach(function(el) {
                     saveFields[el.dataset.field] = el.value;
                 });
+                return saveFields;
+            }
 
+            // Form values as loaded, so only fields edited here are saved
+            let originalFields = collectFields();
+
+            document.getElementById('saveBtn').addEventListener('click', function() {
                 vscode.postMessage({
                     command: 'save',
-                    fields: saveFields
+                    fields: collectFields(),
+                    original: originalFields
                 });
             });
 
+            // --- Save conflicts ---
+            function showConflicts(conflicts) {
+                const rows = document.getElementById('conflictRows');
+                rows.innerHTML = '';
+                conflicts.forEach(c => {
+                    const row = document.createElement('tr');
+                    const label = document.createElement('td');
+                    label.className = 'conflict-field';
+                    label.textContent = c.label;
+                    row.appendChild(label);
+                    ['original', 'mine', 'theirs'].forEach(version => {
+                        const cell = document.createElement('td');
+                        const option = document.createElement('label');
+                        const radio = document.createElement('input');
+                        radio.type = 'radio';
+                        radio.name = 'conflict:' + c.field;
+                        radio.value = version;
+                        radio.checked = version === 'mine';
+                        option.appendChild(radio);
+                        const value = document.createElement('span');
+                        value.className = 'conflict-value';
+                        value.textContent = c[version] || '(empty)';
+                        option.appendChild(value);
+                        cell.appendChild(option);
+                        row.appendChild(cell);
+                    });
+                    rows.appendChild(row);
+                });
+
+                const overlay = document.getElementById('conflictOverlay');
+                overlay.style.display = 'flex';
+                document.getElementById('conflictSave').onclick = () => {
+                    const choices = {};
+                    conflicts.forEach(c => {
+                        const selected = document.querySelector('input[name="' + CSS.escape('conflict:' + c.field) + '"]:checked');
+                        choices[c.field] = selected ? selected.value : 'mine';
+                    });
+                    overlay.style.display = 'none';
+                    vscode.postMessage({ command: 'resolveConflict', choices: choices });
+                };
+                document.getElementById('conflictCancel').onclick = () => {
+                    overlay.style.display = 'none';
+                };
+            }
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message.command === 'saved') {
+                    originalFields = collectFields();
+                } else if (message.command === 'conflict') {
+                    showConflicts(message.conflicts);
+                }
+            });
+
             document.getElementById('deleteBtn').addEventListener('click', function() {
                 if (confirm('Are you sure you want to delete this work item?')) {
                     vscode.postMessage({ command: 'delete' });
@@ -1654,7 +2434,61 @@ function getWorkItemHtml(workItem: any, nonce: string, members: {displayName: st
     </html>`;
 }
 
-function getTeamInfoHtml(teamName: string, members: any[], _nonce: string): string {
+function showNotSignedInWarning(): void {
+    vscode.window.showWarningMessage('You are not signed in to Azure DevOps.', 'Sign In').then(choice => {
+        if (choice === 'Sign In') {
+            vscode.commands.executeCommand('adoBacklog.signIn');
+        }
+    });
+}
+
+function getSignedOutHtml(nonce: string): string {
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+        <style>
+            body {
+                font-family: var(--vscode-font-family);
+                padding: 20px;
+                color: var(--vscode-foreground);
+            }
+            .empty-state {
+                text-align: center;
+                padding: 40px;
+                color: var(--vscode-descriptionForeground);
+            }
+            button {
+                padding: 7px 18px;
+                background: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+                border: none;
+                border-radius: 3px;
+                cursor: pointer;
+                font-size: 13px;
+            }
+            button:hover { background: var(--vscode-button-hoverBackground); }
+        </style>
+    </head>
+    <body>
+        <div class="empty-state">
+            <h2>Not signed in</h2>
+            <p>Sign in to Azure DevOps to view and edit this content.</p>
+            <button id="signInBtn">Sign In</button>
+        </div>
+        <script nonce="${nonce}">
+            const vscode = acquireVsCodeApi();
+            document.getElementById('signInBtn').addEventListener('click', () => {
+                vscode.postMessage({ command: 'signIn' });
+            });
+        </script>
+    </body>
+    </html>`;
+}
+
+function getTeamInfoHtml(team: BacklogTeam, members: any[], _nonce: string): string {
     return `<!DOCTYPE html>
     <html lang="en">
     <head>
@@ -1699,11 +2533,16 @@ function getTeamInfoHtml(teamName: string, members: any[], _nonce: string): stri
                 font-size: 14px;
                 margin-top: 5px;
             }
+            .area-paths {
+                color: var(--vscode-descriptionForeground);
+                margin-top: 10px;
+            }
         </style>
     </head>
     <body>
-        <h2>${escapeHtml(teamName)}</h2>
+        <h2>${escapeHtml(team.name)}</h2>
         <div class="member-count">${members.length} member${members.length !== 1 ? 's' : ''}</div>
+        <div class="area-paths">Area paths: ${team.areas.map(a => `<code>${escapeHtml(a.path)}</code>${a.includeChildren ? ' (including sub-areas)' : ''}`).join(', ')}</div>
         ${members.length > 0 ? `
         <table>
             <thead>
@@ -1725,7 +2564,7 @@ function getTeamInfoHtml(teamName: string, members: any[], _nonce: string): stri
         </table>` : `
         <div class="empty-state">
             <p>No team members found.</p>
-            <p>This might mean the area path doesn't match an Azure DevOps team name.</p>
+            ${team.id ? '' : '<p>This area path was configured manually and doesn\'t match an Azure DevOps team name.</p>'}
         </div>`}
     </body>
     </html>`;
@@ -1746,7 +2585,25 @@ function getCustomFieldsForType(workItemType: string): CustomFieldConfig[] {
     return customFields.filter(f => f.workItemTypes.includes(workItemType));
 }
 
-function getManageCustomFieldsHtml(fields: CustomFieldConfig[], nonce: string): string {
+const FIELD_LABELS: { [field: string]: string } = {
+    'System.Title': 'Title',
+    'System.State': 'State',
+    'System.IterationPath': 'Iteration Path',
+    'System.AssignedTo': 'Assigned To',
+    'System.Tags': 'Tags',
+    'System.Description': 'Description',
+    'Microsoft.VSTS.Common.AcceptanceCriteria': 'Acceptance Criteria',
+    'Microsoft.VSTS.Scheduling.StoryPoints': 'Story Points'
+};
+
+/** The label a field has on the work item form. */
+function getFieldLabel(field: string, workItemType: string): string {
+    return FIELD_LABELS[field]
+        || getCustomFieldsForType(workItemType).find(f => f.fieldReferenceName === field)?.label
+        || field;
+}
+
+function getManageCustomFieldsHtml(fields: CustomFieldConfig[], workItemTypes: string[], nonce: string): string {
     return `<!DOCTYPE html>
     <html lang="en">
     <head>
@@ -1927,10 +2784,7 @@ function getManageCustomFieldsHtml(fields: CustomFieldConfig[], nonce: string):
             <div class="form-row">
                 <label>Work Item Types</label>
                 <div class="checkbox-group">
-                    <label><input type="checkbox" class="wiType" value="Epic" /> Epic</label>
-                    <label><input type="checkbox" class="wiType" value="Feature" /> Feature</label>
-                    <label><input type="checkbox" class="wiType" value="User Story" /> User Story</label>
-                    <label><input type="checkbox" class="wiType" value="Bug" /> Bug</label>
+                    ${workItemTypes.map(t => `<label><input type="checkbox" class="wiType" value="${escapeHtml(t)}" /> ${escapeHtml(t)}</label>`).join('\n                    ')}
                 </div>
             </div>
             <div class="form-actions">
@@ -0,0 +1,373 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { BacklogBackend, BulkResult, FetchProgress, OutboxState, SyncState, TeamMember, ThrottleState, WorkItemTypeField, WorkItemUpdate } from './backend';
+import { BacklogTree, WorkItemFilters, hasFilters } from './backlogTree';
+import { byBacklogOrder } from './backlogOrder';
+import { BacklogHierarchy, DEFAULT_HIERARCHY, getLowerLevelTypes, getOrderField, getTreeLevels } from './hierarchy';
+import { BacklogTeam } from './teams';
+import { ConnectionProfile } from './profiles';
+import { ConnectionTestStage } from './connection';
+import { WiqlContext, runWiql } from './wiql';
+
+/** Sample backlog the fake backend starts from, e.g. `resources/demo-backlog.json`. */
+export interface BacklogFixture {
+    organizationUrl?: string;
+    project?: string;
+    hierarchy?: BacklogHierarchy;
+    teams: BacklogTeam[];
+    /** Members by team key. */
+    members?: Record<string, TeamMember[]>;
+    /** Workflow states by work item type, in order; new items start in the first. */
+    states?: Record<string, string[]>;
+    workItemTypeFields?: Record<string, WorkItemTypeField[]>;
+    /** Work items with their fields; `System.Parent` links them into a tree. */
+    workItems: { id: number; fields: Record<string, any> }[];
+}
+
+function httpError(statusCode: number, message: string): Error {
+    return Object.assign(new Error(message), { statusCode });
+}
+
+/**
+ * An Azure DevOps project held in memory: WIQL-subset queries, parent links, workflow states and
+ * revisions behave like the real service, without a network. Backs demo mode and the tests.
+ */
+export class FakeBacklogBackend implements BacklogBackend {
+    private _onDidChangeConnection = new vscode.EventEmitter<void>();
+    readonly onDidChangeConnection: vscode.Event<void> = this._onDidChangeConnection.event;
+    private _onDidChangeSyncState = new vscode.EventEmitter<SyncState>();
+    readonly onDidChangeSyncState: vscode.Event<SyncState> = this._onDidChangeSyncState.event;
+    private _onDidSync = new vscode.EventEmitter<void>();
+    readonly onDidSync: vscode.Event<void> = this._onDidSync.event;
+    private _onDidChangeFetchProgress = new vscode.EventEmitter<FetchProgress | undefined>();
+    readonly onDidChangeFetchProgress: vscode.Event<FetchProgress | undefined> = this._onDidChangeFetchProgress.event;
+    private _onDidChangeThrottling = new vscode.EventEmitter<ThrottleState | undefined>();
+    readonly onDidChangeThrottling: vscode.Event<ThrottleState | undefined> = this._onDidChangeThrottling.event;
+    private _onDidChangeWorkItems = new vscode.EventEmitter<number[] | undefined>();
+    readonly onDidChangeWorkItems: vscode.Event<number[] | undefined> = this._onDidChangeWorkItems.event;
+    private _onDidChangeOutbox = new vscode.EventEmitter<OutboxState>();
+    readonly onDidChangeOutbox: vscode.Event<OutboxState> = this._onDidChangeOutbox.event;
+
+    private items = new Map<number, WorkItem>();
+    private nextId = 1;
+    private readonly ready: Promise<void>;
+
+    constructor(private readonly fixture: BacklogFixture, private readonly now = () => new Date()) {
+        for (const { id, fields } of fixture.workItems) {
+            this.items.set(id, this.toWorkItem(id, { ...fields }, 1));
+            this.nextId = Math.max(this.nextId, id + 1);
+        }
+        // Let listeners registered right after construction see the initial state, as with a real connection
+        this.ready = Promise.resolve().then(() => this._onDidChangeConnection.fire());
+    }
+
+    static fromFile(file: string): FakeBacklogBackend {
+        return new FakeBacklogBackend(JSON.parse(fs.readFileSync(file, 'utf8')));
+    }
+
+    private toWorkItem(id: number, fields: Record<string, any>, rev: number): WorkItem {
+        fields['System.Id'] = id;
+        fields['System.Rev'] = rev;
+        fields['System.TeamProject'] = this.getProfile().project;
+        fields['System.ChangedDate'] = this.now().toISOString();
+        return { id, rev, fields, url: `${this.getProfile().organizationUrl}/_apis/wit/workItems/${id}` };
+    }
+
+    private clone(item: WorkItem): WorkItem {
+        return JSON.parse(JSON.stringify(item));
+    }
+
+    private getItem(id: number): WorkItem {
+        const item = this.items.get(id);
+        if (!item) throw httpError(404, `TF401232: Work item ${id} does not exist, or you do not have permissions to read it.`);
+        return item;
+    }
+
+    /** Saves a new revision of a work item with some fields changed; `undefined` removes a field. */
+    private revise(item: WorkItem, changes: Record<string, any>): WorkItem {
+        const fields = { ...item.fields };
+        for (const [field, value] of Object.entries(changes)) {
+            if (value === null || value === undefined || value === '') {
+                delete fields[field];
+            } else {
+                fields[field] = value;
+            }
+        }
+        const revised = this.toWorkItem(item.id!, fields, item.rev! + 1);
+        this.items.set(item.id!, revised);
+        return revised;
+    }
+
+    /** Identity fields are stored as identities, like the real service does with the names it is given. */
+    private toIdentity(value: any): any {
+        if (typeof value !== 'string' || !value) return value;
+        const name = value.toLowerCase();
+        const members = Object.values(this.fixture.members || {}).flat();
+        return members.find(m => m.displayName.toLowerCase() === name || m.uniqueName.toLowerCase() === name)
+            || { displayName: value, uniqueName: value };
+    }
+
+    private getAncestors(id: number): number[] {
+        const ancestors: number[] = [];
+        let parent = this.items.get(id)?.fields?.['System.Parent'];
+        while (parent !== undefined && this.items.has(parent) && !ancestors.includes(parent)) {
+            ancestors.push(parent);
+            parent = this.items.get(parent)!.fields?.['System.Parent'];
+        }
+        return ancestors;
+    }
+
+    /** Tells the tree which nodes changed, like `AdoService.invalidateWorkItemCache`. */
+    private changed(ids: number[] | undefined): void {
+        this._onDidChangeWorkItems.fire(ids && [...new Set(ids.flatMap(id => [id, ...this.getAncestors(id)]))]);
+    }
+
+    /** Runs a WIQL query over the work items, e.g. to check what a query of the extension would return. */
+    query(wiql: string): WorkItem[] {
+        const context: WiqlContext = { project: this.getProfile().project, today: this.now() };
+        return runWiql(wiql, [...this.items.values()], context).map(item => this.clone(item));
+    }
+
+    whenReady(): Promise<void> {
+        return this.ready;
+    }
+
+    hasConnectionSettings(): boolean {
+        return true;
+    }
+
+    isSignedIn(): boolean {
+        return true;
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    getProfile(): ConnectionProfile {
+        return {
+            name: 'Demo',
+            organizationUrl: this.fixture.organizationUrl || 'https://dev.azure.com/demo',
+            project: this.fixture.project || 'Demo',
+            serverType: 'cloud',
+            authenticationMethod: 'pat',
+            areaPaths: [],
+            teams: []
+        };
+    }
+
+    async signIn(): Promise<boolean> {
+        return true;
+    }
+
+    async signOut(): Promise<void> { }
+
+    async testConnection(): Promise<ConnectionTestStage[]> {
+        return [{ name: 'Settings', ok: true, detail: 'Demo mode uses sample data; nothing is sent to Azure DevOps.' }];
+    }
+
+    async sync(): Promise<void> { }
+
+    getSyncState(): SyncState {
+        return { syncing: false, stale: false };
+    }
+
+    clearCache(): void { }
+
+    invalidateWorkItemCache(workItemId: number, options: { newParentId?: number; scopeChanged?: boolean } = {}): void {
+        this.changed(options.scopeChanged ? undefined : [workItemId, ...options.newParentId !== undefined ? [options.newParentId] : []]);
+    }
+
+    async getTeams(): Promise<BacklogTeam[]> {
+        return this.fixture.teams;
+    }
+
+    async getTeamMembers(team: BacklogTeam): Promise<TeamMember[]> {
+        return this.fixture.members?.[team.key] || [];
+    }
+
+    async getAllTeamMembers(): Promise<TeamMember[]> {
+        const seen = new Map<string, TeamMember>();
+        for (const member of Object.values(this.fixture.members || {}).flat()) {
+            if (!seen.has(member.uniqueName)) seen.set(member.uniqueName, member);
+        }
+        return [...seen.values()];
+    }
+
+    async getHierarchy(): Promise<BacklogHierarchy> {
+        return this.fixture.hierarchy || DEFAULT_HIERARCHY;
+    }
+
+    async getAvailableStates(workItemType: string, currentState: string): Promise<string[]> {
+        return this.fixture.states?.[workItemType] || [currentState];
+    }
+
+    async getWorkItemTypeFields(workItemType: string): Promise<WorkItemTypeField[]> {
+        return this.fixture.workItemTypeFields?.[workItemType] || [];
+    }
+
+    async getWorkItem(id: number): Promise<WorkItem | null> {
+        const item = this.items.get(id);
+        return item ? this.clone(item) : null;
+    }
+
+    /** The team's tree, with its top level found by the same kind of WIQL query `AdoService` sends. */
+    async getBacklogTree(team: BacklogTeam, rootTypes: string[], filters?: WorkItemFilters): Promise<BacklogTree> {
+        if (team.areas.length === 0 || rootTypes.length === 0) return new BacklogTree([], () => []);
+        const quote = (value: string) => `'${value.replace(/'/g, "''")}'`;
+        const areaConditions = team.areas.map(area =>
+            `[System.AreaPath] ${area.includeChildren ? 'UNDER' : '='} ${quote(area.path)}`
+        ).join(' OR ');
+        const roots = this.query(`SELECT [System.Id] FROM WorkItems
+            WHERE [System.TeamProject] = @project
+            AND [System.WorkItemType] IN (${rootTypes.map(quote).join(', ')})
+            AND (${areaConditions})
+            ORDER BY [System.Title]`);
+
+        const children = new Map<number, WorkItem[]>();
+        for (const item of this.items.values()) {
+            const parent = item.fields?.['System.Parent'];
+            if (parent !== undefined) {
+                children.set(parent, [...(children.get(parent) || []), this.clone(item)]);
+            }
+        }
+        const tree = new BacklogTree(roots, id => children.get(id) || []).sorted(byBacklogOrder(getOrderField(await this.getHierarchy())));
+        return hasFilters(filters) ? tree.filter(filters!) : tree;
+    }
+
+    async getRootWorkItemsForTeam(team: BacklogTeam, workItemTypes: string[], filters?: WorkItemFilters): Promise<WorkItem[]> {
+        return (await this.getBacklogTree(team, workItemTypes, filters)).roots;
+    }
+
+    async getChildWorkItems(team: BacklogTeam, rootTypes: string[], parentId: number, filters?: WorkItemFilters): Promise<WorkItem[]> {
+        return (await this.getBacklogTree(team, rootTypes, filters)).getChildren(parentId);
+    }
+
+    async getUnparentedTree(team: BacklogTeam, filters?: WorkItemFilters): Promise<BacklogTree> {
+        const hierarchy = await this.getHierarchy();
+        const topLevel = getTreeLevels(hierarchy)[0];
+        const lowerTypes = getLowerLevelTypes(hierarchy);
+        if (!topLevel || lowerTypes.length === 0) return new BacklogTree([], () => []);
+        const orphans = (await this.getBacklogTree(team, lowerTypes)).excluding(await this.getBacklogTree(team, topLevel.workItemTypes));
+        return hasFilters(filters) ? orphans.filter(filters!) : orphans;
+    }
+
+    async getRemainingWorkRollups(ids: number[]): Promise<Map<number, number>> {
+        const hierarchy = await this.getHierarchy();
+        const taskTypes = hierarchy.taskLevel?.workItemTypes || [];
+        const remainingField = hierarchy.fields.RemainingWork;
+        const tree = new BacklogTree([], id => [...this.items.values()].filter(item => item.fields?.['System.Parent'] === id));
+        const remainingOf = (item: WorkItem) => taskTypes.includes(item.fields?.['System.WorkItemType'])
+            ? Number(item.fields?.[remainingField]) || 0
+            : undefined;
+        return new Map(ids.map(id => [id, tree.rollup(id, remainingOf)]));
+    }
+
+    async updateWorkItem(workItemId: number, fields: { [key: string]: any }, expectedRev?: number): Promise<WorkItem> {
+        const item = this.getItem(workItemId);
+        if (expectedRev !== undefined && expectedRev !== item.rev) {
+            throw httpError(412, `TF26071: This work item has been changed by someone else since you opened it. Expected revision ${expectedRev}, found ${item.rev}.`);
+        }
+        const states = this.fixture.states?.[item.fields?.['System.WorkItemType']];
+        if (fields['System.State'] && states && !states.includes(fields['System.State'])) {
+            throw httpError(400, `TF401320: Rule Error for field State. Error code: Required, HasValues, LimitedToValues, AllowsOldValue, InvalidEmpty.`);
+        }
+        const changes = { ...fields };
+        if ('System.AssignedTo' in changes) changes['System.AssignedTo'] = this.toIdentity(changes['System.AssignedTo']);
+        const updated = this.revise(item, changes);
+        this.changed('System.AreaPath' in fields || 'System.WorkItemType' in fields ? undefined : [workItemId]);
+        return this.clone(updated);
+    }
+
+    async createWorkItem(workItemType: string, fields: { [key: string]: any }, parentId?: number): Promise<WorkItem> {
+        if (parentId !== undefined) this.getItem(parentId);
+        const id = this.nextId++;
+        const item = this.toWorkItem(id, {
+            'System.WorkItemType': workItemType,
+            'System.State': this.fixture.states?.[workItemType]?.[0] || 'New',
+            ...fields,
+            ...parentId !== undefined ? { 'System.Parent': parentId } : {}
+        }, 1);
+        if ('System.AssignedTo' in item.fields!) item.fields!['System.AssignedTo'] = this.toIdentity(item.fields!['System.AssignedTo']);
+        this.items.set(id, item);
+        this.changed(parentId !== undefined ? [parentId] : undefined);
+        return this.clone(item);
+    }
+
+    async deleteWorkItem(workItemId: number): Promise<void> {
+        const item = this.getItem(workItemId);
+        const parent = item.fields?.['System.Parent'];
+        this.items.delete(workItemId);
+        // Children lose their parent link, as they do in Azure DevOps
+        for (const child of [...this.items.values()].filter(i => i.fields?.['System.Parent'] === workItemId)) {
+            this.revise(child, { 'System.Parent': undefined });
+        }
+        this.changed(parent !== undefined ? [parent] : undefined);
+    }
+
+    async addParentLink(workItemId: number, parentId: number): Promise<void> {
+        const item = this.getItem(workItemId);
+        this.getItem(parentId);
+        if (item.fields?.['System.Parent'] !== undefined) {
+            throw httpError(400, `TF201036: You cannot add a Child link between work items ${parentId} and ${workItemId} because a work item can have only one Parent link.`);
+        }
+        if (parentId === workItemId || this.getAncestors(parentId).includes(workItemId)) {
+            throw httpError(400, `TF201036: You cannot add a Child link between work items ${parentId} and ${workItemId} because it would create a circular relationship.`);
+        }
+        this.revise(item, { 'System.Parent': parentId });
+        this.changed([workItemId, parentId]);
+    }
+
+    async removeParentLink(workItemId: number): Promise<void> {
+        const item = this.getItem(workItemId);
+        const parent = item.fields?.['System.Parent'];
+        if (parent === undefined) return;
+        // Report the old parent's branch before the link is gone
+        const affected = [parent, ...this.getAncestors(parent)];
+        this.revise(item, { 'System.Parent': undefined });
+        this.changed([workItemId, ...affected]);
+    }
+
+    updateWorkItems(updates: WorkItemUpdate[], onProgress?: (done: number, total: number) => void): Promise<BulkResult[]> {
+        return this.runBulk(updates.map(update => update.workItemId), (id, index) => this.updateWorkItem(id, updates[index].fields), onProgress);
+    }
+
+    moveWorkItems(workItemIds: number[], parentId: number, onProgress?: (done: number, total: number) => void): Promise<BulkResult[]> {
+        return this.runBulk(workItemIds, async id => {
+            await this.removeParentLink(id);
+            await this.addParentLink(id, parentId);
+        }, onProgress);
+    }
+
+    deleteWorkItems(workItemIds: number[], onProgress?: (done: number, total: number) => void): Promise<BulkResult[]> {
+        return this.runBulk(workItemIds, id => this.deleteWorkItem(id), onProgress);
+    }
+
+    private async runBulk(
+        workItemIds: number[],
+        edit: (workItemId: number, index: number) => Promise<unknown>,
+        onProgress?: (done: number, total: number) => void
+    ): Promise<BulkResult[]> {
+        const results: BulkResult[] = [];
+        for (const [index, workItemId] of workItemIds.entries()) {
+            try {
+                await edit(workItemId, index);
+                results.push({ workItemId });
+            } catch (error) {
+                results.push({ workItemId, error });
+            }
+            onProgress?.(index + 1, workItemIds.length);
+        }
+        return results;
+    }
+
+    // Nothing goes over a network, so nothing is ever queued
+    getOutboxState(): OutboxState {
+        return { pending: [], conflicts: [] };
+    }
+
+    async sendPendingEdits(): Promise<void> { }
+
+    async discardPendingEdits(workItemId: number): Promise<void> { }
+}
@@ -0,0 +1,151 @@
+import * as azdev from 'azure-devops-node-api';
+import { BacklogConfiguration, BacklogLevelConfiguration, BugsBehavior } from 'azure-devops-node-api/interfaces/WorkInterfaces';
+
+/** One level of the backlog, e.g. Epics, Features or Stories. */
+export interface BacklogLevel {
+    /** Category reference name, e.g. `Microsoft.RequirementCategory`. */
+    id: string;
+    /** Plural display name, e.g. `Product Backlog Items`. */
+    name: string;
+    kind: 'portfolio' | 'requirement' | 'task';
+    workItemTypes: string[];
+    defaultWorkItemType: string;
+}
+
+/** Where bugs appear on the backlog, as set in the team's working settings. */
+export type BugsPlacement = 'off' | 'requirements' | 'tasks';
+
+/** The project's backlog levels, derived from its process template. */
+export interface BacklogHierarchy {
+    /** Portfolio levels from the top down, followed by the requirement level. */
+    levels: BacklogLevel[];
+    taskLevel?: BacklogLevel;
+    bugs: BugsPlacement;
+    bugTypes: string[];
+    /** Process-specific fields by role, e.g. `Effort` → `Microsoft.VSTS.Scheduling.StoryPoints`. */
+    fields: Record<string, string>;
+}
+
+/** Task fields shared by the built-in processes, used when the backlog configuration doesn't name them. */
+export const TASK_FIELD_DEFAULTS: Record<string, string> = {
+    RemainingWork: 'Microsoft.VSTS.Scheduling.RemainingWork',
+    CompletedWork: 'Microsoft.VSTS.Scheduling.CompletedWork',
+    Activity: 'Microsoft.VSTS.Common.Activity'
+};
+
+/** Fields the built-in processes keep backlog order in: Agile, CMMI and Basic use StackRank, Scrum BacklogPriority. */
+export const ORDER_FIELDS = ['Microsoft.VSTS.Common.StackRank', 'Microsoft.VSTS.Common.BacklogPriority'];
+
+/** Estimate fields of the built-in processes: Story Points in Agile, Effort in Scrum and Basic, Size in CMMI. */
+export const EFFORT_FIELDS = ['Microsoft.VSTS.Scheduling.StoryPoints', 'Microsoft.VSTS.Scheduling.Effort', 'Microsoft.VSTS.Scheduling.Size'];
+
+/** Agile process defaults, used when the backlog configuration can't be read. */
+export const DEFAULT_HIERARCHY: BacklogHierarchy = {
+    levels: [
+        { id: 'Microsoft.EpicCategory', name: 'Epics', kind: 'portfolio', workItemTypes: ['Epic'], defaultWorkItemType: 'Epic' },
+        { id: 'Microsoft.FeatureCategory', name: 'Features', kind: 'portfolio', workItemTypes: ['Feature'], defaultWorkItemType: 'Feature' },
+        { id: 'Microsoft.RequirementCategory', name: 'Stories', kind: 'requirement', workItemTypes: ['User Story', 'Bug'], defaultWorkItemType: 'User Story' }
+    ],
+    taskLevel: { id: 'Microsoft.TaskCategory', name: 'Tasks', kind: 'task', workItemTypes: ['Task'], defaultWorkItemType: 'Task' },
+    bugs: 'requirements',
+    bugTypes: ['Bug'],
+    fields: {
+        ...TASK_FIELD_DEFAULTS,
+        Effort: 'Microsoft.VSTS.Scheduling.StoryPoints',
+        Order: 'Microsoft.VSTS.Common.StackRank'
+    }
+};
+
+function toLevel(config: BacklogLevelConfiguration, kind: BacklogLevel['kind'], extraTypes: string[] = []): BacklogLevel {
+    const workItemTypes = (config.workItemTypes || []).map(t => t.name!).filter(Boolean);
+    for (const type of extraTypes) {
+        if (!workItemTypes.includes(type)) {
+            workItemTypes.push(type);
+        }
+    }
+    return {
+        id: config.id || '',
+        name: config.name || '',
+        kind,
+        workItemTypes,
+        defaultWorkItemType: config.defaultWorkItemType?.name || workItemTypes[0] || ''
+    };
+}
+
+/**
+ * Turns a team's backlog configuration into the levels shown in the tree.
+ * Bugs join the requirement or task level depending on the bugs behavior.
+ */
+export function parseBacklogConfiguration(config: BacklogConfiguration, bugTypes: string[]): BacklogHierarchy {
+    const bugs: BugsPlacement = config.bugsBehavior === BugsBehavior.AsTasks ? 'tasks'
+        : config.bugsBehavior === BugsBehavior.Off ? 'off'
+        : 'requirements';
+
+    // Higher rank means higher up the hierarchy
+    const portfolio = [...(config.portfolioBacklogs || [])]
+        .sort((a, b) => (b.rank || 0) - (a.rank || 0))
+        .map(level => toLevel(level, 'portfolio'));
+
+    const levels = [...portfolio];
+    if (config.requirementBacklog) {
+        levels.push(toLevel(config.requirementBacklog, 'requirement', bugs === 'requirements' ? bugTypes : []));
+    }
+    const taskLevel = config.taskBacklog
+        ? toLevel(config.taskBacklog, 'task', bugs === 'tasks' ? bugTypes : [])
+        : undefined;
+
+    // With bugs turned off they stay off the backlog, even if a level lists them
+    if (bugs === 'off') {
+        for (const level of [...levels, ...(taskLevel ? [taskLevel] : [])]) {
+            level.workItemTypes = level.workItemTypes.filter(t => !bugTypes.includes(t));
+        }
+    }
+
+    return {
+        levels: levels.filter(l => l.workItemTypes.length > 0),
+        taskLevel,
+        bugs,
+        bugTypes,
+        fields: { ...TASK_FIELD_DEFAULTS, ...config.backlogFields?.typeFields }
+    };
+}
+
+/** Reads the project's backlog levels through its default team's configuration. */
+export async function loadBacklogHierarchy(connection: azdev.WebApi, project: string): Promise<BacklogHierarchy> {
+    const workApi = await connection.getWorkApi();
+    const witApi = await connection.getWorkItemTrackingApi();
+    const [config, bugCategory] = await Promise.all([
+        workApi.getBacklogConfigurations({ project }),
+        // Processes without a bug type (e.g. Basic) have no bug category
+        witApi.getWorkItemTypeCategory(project, 'Microsoft.BugCategory').catch(() => null)
+    ]);
+    const bugTypes = (bugCategory?.workItemTypes || []).map(t => t.name!).filter(Boolean);
+    return parseBacklogConfiguration(config, bugTypes);
+}
+
+/** Levels shown in the tree: the backlog levels with the task level beneath them. */
+export function getTreeLevels(hierarchy: BacklogHierarchy): BacklogLevel[] {
+    return hierarchy.taskLevel && hierarchy.taskLevel.workItemTypes.length > 0
+        ? [...hierarchy.levels, hierarchy.taskLevel]
+        : hierarchy.levels;
+}
+
+/** Work item types below the top backlog level and above tasks, e.g. Features, Stories and Bugs. */
+export function getLowerLevelTypes(hierarchy: BacklogHierarchy): string[] {
+    return hierarchy.levels.slice(1).flatMap(level => level.workItemTypes);
+}
+
+/** Index in the tree levels of the level a work item type belongs to, or -1 if it isn't shown. */
+export function getLevelIndex(hierarchy: BacklogHierarchy, workItemType: string): number {
+    return getTreeLevels(hierarchy).findIndex(l => l.workItemTypes.includes(workItemType));
+}
+
+/** Field the backlog is ranked by, as named in the process's backlog configuration. */
+export function getOrderField(hierarchy: BacklogHierarchy): string {
+    return hierarchy.fields.Order || ORDER_FIELDS[0];
+}
+
+/** Field work items are estimated in, as named in the process's backlog configuration. */
+export function getEffortField(hierarchy: BacklogHierarchy): string {
+    return hierarchy.fields.Effort || EFFORT_FIELDS[0];
+}
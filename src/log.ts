@@ -0,0 +1,75 @@
+import type { LogOutputChannel } from 'vscode';
+import { ApiCall, observeApiCalls } from './apiCalls';
+
+/**
+ * Logging to the "Azure DevOps Backlog" output channel, where levels are filtered by
+ * "Developer: Set Log Level". Until the channel is set, e.g. in unit tests, lines go to the console.
+ */
+
+let output: LogOutputChannel | undefined;
+
+export function setLogOutput(channel: LogOutputChannel | undefined): void {
+    output = channel;
+}
+
+type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+function write(level: LogLevel, message: string): void {
+    if (output) {
+        output[level](message);
+    } else {
+        console[level === 'trace' ? 'debug' : level](message);
+    }
+}
+
+export const log = {
+    trace: (message: string) => write('trace', message),
+    debug: (message: string) => write('debug', message),
+    info: (message: string) => write('info', message),
+    warn: (message: string) => write('warn', message),
+    /** Logs a failure with the error's status and activity ID appended. */
+    error: (message: string, error?: unknown) => write('error', error === undefined ? message : `${message}: ${describeError(error)}`)
+};
+
+function getHeader(error: any, name: string): string | undefined {
+    const value = error?.responseHeaders?.[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/** The ID Azure DevOps gives a request, which its support can look up server-side. */
+export function getActivityId(error: any): string | undefined {
+    return getHeader(error, 'activityid') || getHeader(error, 'x-vss-e2eid');
+}
+
+/** An error's message with its HTTP status and Azure DevOps activity ID, for the log. */
+export function describeError(error: any): string {
+    const message = error?.message ?? String(error);
+    const details = [
+        error?.statusCode ? `HTTP ${error.statusCode}` : error?.code,
+        getActivityId(error) && `activity ${getActivityId(error)}`
+    ].filter(Boolean);
+    return details.length > 0 ? `${message} (${details.join(', ')})` : message;
+}
+
+/** Collapses a WIQL query onto one line. */
+function oneLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function logApiCall(call: ApiCall): void {
+    const name = `${call.api}.${call.method}`;
+    if (call.error) {
+        log.warn(`${name} failed after ${call.durationMs}ms: ${describeError(call.error)}`);
+        return;
+    }
+    log.debug(`${name} ${call.durationMs}ms`);
+    if (call.method === 'queryByWiql') {
+        const rows = call.result?.workItems?.length ?? call.result?.workItemRelations?.length;
+        log.debug(`WIQL (${rows ?? 0} rows): ${oneLine(call.args[0]?.query || '')}`);
+    }
+}
+
+/** Wraps an API client so every call, its duration and any failure are logged. */
+export function withTracing<T extends object>(api: T): T {
+    return observeApiCalls(api, logApiCall);
+}
@@ -0,0 +1,116 @@
+/** A field both sides changed to different values since the panel was opened. */
+export interface FieldConflict {
+    field: string;
+    original: any;
+    mine: any;
+    theirs: any;
+}
+
+export interface MergeResult {
+    /** Edits that don't collide with anything changed in the meantime. */
+    changes: Record<string, any>;
+    conflicts: FieldConflict[];
+}
+
+/** True when a save was rejected because the work item changed since the given revision. */
+export function isRevisionConflict(error: any): boolean {
+    const status = error?.statusCode;
+    if (status === 409 || status === 412) return true;
+    // Older servers report a failed `test` operation as a plain bad request
+    return status === 400 && /TF26071|TF401289|\brev\b|revision/i.test(error?.message || '');
+}
+
+function isEmpty(value: any): boolean {
+    return value === null || value === undefined || value === '';
+}
+
+/** Display names and account names an identity field value can be written as. */
+function identityNames(value: any): string[] {
+    if (typeof value === 'object') {
+        return [value.displayName, value.uniqueName, value.displayName && value.uniqueName ? `${value.displayName} <${value.uniqueName}>` : '']
+            .filter(Boolean)
+            .map((name: string) => name.toLowerCase());
+    }
+    return [String(value).toLowerCase()];
+}
+
+/**
+ * Compares field values the way Azure DevOps stores them: identities by name, tags regardless of
+ * order, numbers regardless of how they were typed, and empty values as equal.
+ */
+export function fieldValuesEqual(field: string, a: any, b: any): boolean {
+    if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+    if (typeof a === 'object' || typeof b === 'object') {
+        const names = identityNames(b);
+        return identityNames(a).some(name => names.includes(name));
+    }
+    if (field === 'System.Tags') {
+        const tags = (value: any) => String(value).split(';').map(t => t.trim().toLowerCase()).filter(Boolean).sort().join(';');
+        return tags(a) === tags(b);
+    }
+    if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+    return String(a) === String(b);
+}
+
+/** The fields whose values differ between two snapshots of the same form. */
+export function getChangedFields(original: Record<string, any>, current: Record<string, any>): Record<string, any> {
+    const changed: Record<string, any> = {};
+    for (const field of Object.keys(current)) {
+        if (!fieldValuesEqual(field, original[field], current[field])) {
+            changed[field] = current[field];
+        }
+    }
+    return changed;
+}
+
+/**
+ * Three-way merge of my edits with the work item as it is now. Fields only I changed are kept,
+ * fields only they changed are left alone, and fields both changed differently are conflicts.
+ */
+export function mergeFields(original: Record<string, any>, mine: Record<string, any>, theirs: Record<string, any>): MergeResult {
+    const changes: Record<string, any> = {};
+    const conflicts: FieldConflict[] = [];
+    for (const field of Object.keys(mine)) {
+        if (fieldValuesEqual(field, theirs[field], original[field])) {
+            changes[field] = mine[field];
+        } else if (!fieldValuesEqual(field, theirs[field], mine[field])) {
+            conflicts.push({ field, original: original[field], mine: mine[field], theirs: theirs[field] });
+        }
+    }
+    return { changes, conflicts };
+}
+
+/** Plain-text rendering of a field value for showing side by side. */
+export function describeFieldValue(value: any): string {
+    if (isEmpty(value)) return '';
+    if (typeof value === 'object') return value.displayName || value.uniqueName || '';
+    return String(value)
+        .replace(/<(br|\/p|\/div|\/li)[^>]*>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/** Which version of a conflicting field to keep. */
+export type ConflictChoice = 'mine' | 'theirs' | 'original';
+
+/**
+ * The field updates that apply the chosen version of each conflict. Keeping theirs needs no
+ * update; identities are written back by account name.
+ */
+export function resolveConflicts(conflicts: FieldConflict[], choices: Record<string, ConflictChoice>): Record<string, any> {
+    const changes: Record<string, any> = {};
+    for (const conflict of conflicts) {
+        const choice = choices[conflict.field] || 'mine';
+        if (choice === 'theirs') continue;
+        const value = choice === 'mine' ? conflict.mine : conflict.original;
+        changes[conflict.field] = isEmpty(value) ? null : typeof value === 'object' ? value.uniqueName || value.displayName : value;
+    }
+    return changes;
+}
@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+import { log } from './log';
+import { ErrorAction, classifyError } from './errors';
+
+const SHOW_LOGS = 'Show Logs';
+
+/**
+ * Shows an error notification with a "Show Logs" button and logs it with the error's details.
+ * Resolves to the item picked, or undefined when dismissed or the logs were opened.
+ */
+export async function showError<T extends string>(message: string, error?: unknown, ...items: T[]): Promise<T | undefined>;
+export async function showError<T extends string>(message: string, error: unknown, options: vscode.MessageOptions, ...items: T[]): Promise<T | undefined>;
+export async function showError(message: string, error?: unknown, ...rest: any[]): Promise<string | undefined> {
+    log.error(message, error);
+    const options: vscode.MessageOptions = typeof rest[0] === 'object' ? rest.shift() : {};
+    const choice = await vscode.window.showErrorMessage(message, options, ...rest, SHOW_LOGS);
+    if (choice === SHOW_LOGS) {
+        vscode.commands.executeCommand('adoBacklog.showLogs');
+        return undefined;
+    }
+    return choice;
+}
+
+/** What an error notification needs to offer its actions. */
+export interface ErrorContext {
+    /** Web page of the work item involved, for "Open in Browser". */
+    workItemUrl?: string;
+    /** Runs the failed operation again, for "Retry". */
+    retry?: () => unknown;
+}
+
+const ACTION_LABELS: Record<ErrorAction, string> = {
+    signIn: 'Re-authenticate',
+    openInBrowser: 'Open in Browser',
+    retry: 'Retry',
+    refresh: 'Refresh'
+};
+
+/**
+ * Reports a failed operation in words the user can act on, e.g. "Change State failed: A work
+ * item rule rejected the value of State", with the actions that fit the error. Cancellations are ignored.
+ */
+export async function showAdoError(title: string, error: unknown, context: ErrorContext = {}): Promise<void> {
+    const classified = classifyError(error);
+    if (classified.kind === 'cancelled') return;
+
+    const actions = classified.actions.filter(action =>
+        action === 'retry' ? !!context.retry : action === 'openInBrowser' ? !!context.workItemUrl : true
+    );
+    const choice = await showError(`${title}: ${classified.message}`, error, ...actions.map(action => ACTION_LABELS[action]));
+    switch (actions.find(action => ACTION_LABELS[action] === choice)) {
+        case 'signIn':
+            vscode.commands.executeCommand('adoBacklog.signIn');
+            break;
+        case 'openInBrowser':
+            vscode.env.openExternal(vscode.Uri.parse(context.workItemUrl!));
+            break;
+        case 'retry':
+            context.retry!();
+            break;
+        case 'refresh':
+            vscode.commands.executeCommand('adoBacklog.refresh');
+            break;
+    }
+}
+
+/**
+ * Wraps a command handler so any failure is reported with `showAdoError` instead of becoming
+ * an unhandled rejection. "Retry" runs the handler again with the same arguments.
+ */
+export function withErrorHandling<A extends any[]>(
+    title: string,
+    handler: (...args: A) => unknown,
+    getContext: (...args: A) => ErrorContext = () => ({})
+): (...args: A) => Promise<void> {
+    const run = async (...args: A): Promise<void> => {
+        try {
+            await handler(...args);
+        } catch (error) {
+            showAdoError(`${title} failed`, error, { retry: () => run(...args), ...getContext(...args) });
+        }
+    };
+    return run;
+}
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { BacklogTree } from './backlogTree';
+import { ErrorKind, classifyError } from './errors';
+
+const OUTBOX_VERSION = 1;
+
+/** An edit made while Azure DevOps couldn't be reached, mirroring the `AdoService` call that makes it. */
+export type PendingEdit =
+    | { kind: 'update'; workItemId: number; fields: Record<string, any>; expectedRev?: number }
+    | { kind: 'removeParent'; workItemId: number }
+    | { kind: 'addParent'; workItemId: number; parentId: number };
+
+/** Queued edits of one work item that Azure DevOps rejected when they were sent. */
+export interface OutboxConflict {
+    workItemId: number;
+    /** Why they were rejected, in words a user can act on. */
+    message: string;
+    /** The rejected edit and those queued after it for the same item, which built on it. */
+    edits: PendingEdit[];
+}
+
+export interface FlushResult {
+    sent: number;
+    /** Conflicts found by this flush. */
+    conflicts: OutboxConflict[];
+    /** Set when sending stopped because Azure DevOps still can't be reached, or sign-in is needed. */
+    stoppedBy?: unknown;
+}
+
+interface OutboxSnapshot {
+    version: number;
+    edits: PendingEdit[];
+    conflicts: OutboxConflict[];
+}
+
+// Failures that say nothing about the edit itself; sending is tried again later
+const RETRY_LATER: ErrorKind[] = ['offline', 'throttled', 'server', 'authentication', 'cancelled'];
+
+/** True when a failed edit should be queued rather than reported, because Azure DevOps can't be reached. */
+export function isOffline(error: unknown): boolean {
+    return classifyError(error).kind === 'offline';
+}
+
+/** A copy of a work item with field changes applied; `null` and `undefined` clear a field, as in a save. */
+export function applyFields(item: WorkItem, fields: Record<string, any>): WorkItem {
+    const patched = { ...item.fields };
+    for (const [name, value] of Object.entries(fields)) {
+        if (value === null || value === undefined) {
+            delete patched[name];
+        } else {
+            patched[name] = value;
+        }
+    }
+    return { ...item, fields: patched };
+}
+
+/**
+ * Edits made while offline, kept in order on disk until they can be sent. Edits Azure DevOps
+ * rejects when they are finally sent are kept per work item as conflicts until dismissed.
+ */
+export class Outbox {
+    private edits: PendingEdit[] = [];
+    private conflicts = new Map<number, OutboxConflict>();
+
+    /** @param file Where the queue is kept; without one it only lives in memory. */
+    constructor(private readonly file?: string) { }
+
+    /** Reads the queue from disk, if there is one. */
+    async load(): Promise<void> {
+        if (!this.file) return;
+        let snapshot: OutboxSnapshot;
+        try {
+            snapshot = JSON.parse(await fs.promises.readFile(this.file, 'utf8'));
+        } catch {
+            return;
+        }
+        if (snapshot.version !== OUTBOX_VERSION) return;
+        this.edits = snapshot.edits || [];
+        this.conflicts = new Map((snapshot.conflicts || []).map(conflict => [conflict.workItemId, conflict]));
+    }
+
+    /** Writes the queue to disk straight away, replacing the previous one in a single step. */
+    private async save(): Promise<void> {
+        if (!this.file) return;
+        if (this.isEmpty()) {
+            await fs.promises.rm(this.file, { force: true });
+            return;
+        }
+        const snapshot: OutboxSnapshot = {
+            version: OUTBOX_VERSION,
+            edits: this.edits,
+            conflicts: [...this.conflicts.values()]
+        };
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        const tempFile = `${this.file}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tempFile, JSON.stringify(snapshot), 'utf8');
+        await fs.promises.rename(tempFile, this.file);
+    }
+
+    isEmpty(): boolean {
+        return this.edits.length === 0 && this.conflicts.size === 0;
+    }
+
+    getEdits(): PendingEdit[] {
+        return [...this.edits];
+    }
+
+    /** Work items with edits waiting to be sent. */
+    getPendingIds(): number[] {
+        return [...new Set(this.edits.map(edit => edit.workItemId))];
+    }
+
+    hasPending(workItemId: number): boolean {
+        return this.edits.some(edit => edit.workItemId === workItemId);
+    }
+
+    getConflicts(): OutboxConflict[] {
+        return [...this.conflicts.values()];
+    }
+
+    async add(edit: PendingEdit): Promise<void> {
+        // Only the first edit can be checked against the revision it was based on; later ones build on it
+        if (edit.kind === 'update' && this.hasPending(edit.workItemId)) {
+            edit = { kind: 'update', workItemId: edit.workItemId, fields: edit.fields };
+        }
+        this.edits.push(edit);
+        await this.save();
+    }
+
+    /** Forgets the queued edits and any conflict of a work item. */
+    async discard(workItemId: number): Promise<void> {
+        this.edits = this.edits.filter(edit => edit.workItemId !== workItemId);
+        this.conflicts.delete(workItemId);
+        await this.save();
+    }
+
+    /** Forgets everything and removes the queue from disk. */
+    async clear(): Promise<void> {
+        this.edits = [];
+        this.conflicts.clear();
+        await this.save();
+    }
+
+    /**
+     * Sends the queued edits in the order they were made. An edit that is rejected becomes a
+     * conflict for its work item, and the item's later edits join it instead of being sent.
+     * Sending stops at the first failure that isn't about the edit, e.g. still being offline.
+     */
+    async flush(send: (edit: PendingEdit) => Promise<void>): Promise<FlushResult> {
+        const result: FlushResult = { sent: 0, conflicts: [] };
+        while (this.edits.length > 0) {
+            const edit = this.edits[0];
+            const conflict = result.conflicts.find(c => c.workItemId === edit.workItemId);
+            if (conflict) {
+                conflict.edits.push(edit);
+                this.edits.shift();
+                await this.save();
+                continue;
+            }
+            try {
+                await send(edit);
+                result.sent++;
+            } catch (error) {
+                const classified = classifyError(error);
+                if (RETRY_LATER.includes(classified.kind)) {
+                    result.stoppedBy = error;
+                    break;
+                }
+                const rejected: OutboxConflict = { workItemId: edit.workItemId, message: classified.message, edits: [edit] };
+                this.conflicts.set(edit.workItemId, rejected);
+                result.conflicts.push(rejected);
+            }
+            this.edits.shift();
+            await this.save();
+        }
+        return result;
+    }
+}
+
+/**
+ * Shows queued edits on a backlog tree loaded before them: fields are patched on copies of the
+ * items and moved items appear under their new parent. Items left without a parent are roots
+ * when `isRoot` accepts them; an item whose area moves it off the team's backlog drops out.
+ */
+export function withPendingEdits(tree: BacklogTree, edits: PendingEdit[], isRoot: (item: WorkItem) => boolean): BacklogTree {
+    const items = new Map(tree.getAll().map(item => [item.id!, item]));
+    const patched = new Map<number, WorkItem>();
+    // New parent of each moved item, undefined once it has none
+    const parents = new Map<number, number | undefined>();
+    for (const edit of edits) {
+        const item = patched.get(edit.workItemId) || items.get(edit.workItemId);
+        if (!item) continue;
+        if (edit.kind === 'update') {
+            patched.set(edit.workItemId, applyFields(item, edit.fields));
+        } else {
+            parents.set(edit.workItemId, edit.kind === 'addParent' ? edit.parentId : undefined);
+        }
+    }
+    if (patched.size === 0 && parents.size === 0) return tree;
+
+    const current = (item: WorkItem) => patched.get(item.id!) || item;
+    const stays = (item: WorkItem) => !parents.has(item.id!);
+    const movedUnder = (parentId: number | undefined) => [...parents]
+        .filter(([, parent]) => parent === parentId)
+        .map(([id]) => current(items.get(id)!));
+
+    const roots = [...tree.roots.filter(stays).map(current), ...movedUnder(undefined)].filter(isRoot);
+    return new BacklogTree(roots, id => [...tree.getChildren(id).filter(stays).map(current), ...movedUnder(id)]);
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { AuthMethod } from './auth';
+
+export type ServerType = 'cloud' | 'server';
+
+/** A named organization/project connection. */
+export interface ConnectionProfile {
+    name: string;
+    /** Organization URL for Azure DevOps Services, collection URL for Azure DevOps Server. */
+    organizationUrl: string;
+    project: string;
+    serverType: ServerType;
+    authenticationMethod: AuthMethod;
+    tenantId?: string;
+    /** Highest REST API version to request; negotiated with the server when unset. */
+    apiVersion?: string;
+    /** Manual tree roots; when set, team discovery is skipped. */
+    areaPaths: string[];
+    /** Names of discovered teams to show; all teams when empty. */
+    teams: string[];
+    defaultIterationPath?: string;
+}
+
+/** Name used for the connection defined by the top-level `adoBacklog.*` settings. */
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+/** The implicit profile built from the top-level settings. */
+export function getDefaultProfile(): ConnectionProfile {
+    const config = vscode.workspace.getConfiguration('adoBacklog');
+    return {
+        name: DEFAULT_PROFILE_NAME,
+        organizationUrl: config.get<string>('organizationUrl') || '',
+        project: config.get<string>('project') || '',
+        serverType: config.get<ServerType>('serverType') || 'cloud',
+        authenticationMethod: config.get<AuthMethod>('authenticationMethod') || 'pat',
+        tenantId: config.get<string>('tenantId') || undefined,
+        apiVersion: config.get<string>('apiVersion') || undefined,
+        areaPaths: config.get<string[]>('areaPaths') || [],
+        teams: config.get<string[]>('teams') || [],
+        defaultIterationPath: config.get<string>('defaultIterationPath') || undefined
+    };
+}
+
+/** Named profiles from `adoBacklog.profiles`, with unset values inherited from the top-level settings. */
+export function getProfiles(): ConnectionProfile[] {
+    const config = vscode.workspace.getConfiguration('adoBacklog');
+    const defaults = getDefaultProfile();
+    const configured = config.get<Partial<ConnectionProfile>[]>('profiles') || [];
+    return configured
+        .filter(p => p.name && p.name !== DEFAULT_PROFILE_NAME)
+        .map(p => ({
+            name: p.name!,
+            organizationUrl: p.organizationUrl || defaults.organizationUrl,
+            project: p.project || defaults.project,
+            serverType: p.serverType || defaults.serverType,
+            authenticationMethod: p.authenticationMethod || defaults.authenticationMethod,
+            tenantId: p.tenantId || defaults.tenantId,
+            apiVersion: p.apiVersion || defaults.apiVersion,
+            areaPaths: p.areaPaths || [],
+            teams: p.teams || [],
+            defaultIterationPath: p.defaultIterationPath
+        }));
+}
+
+/** The profile named by `adoBacklog.activeProfile`, falling back to the top-level settings. */
+export function getActiveProfile(): ConnectionProfile {
+    const name = vscode.workspace.getConfiguration('adoBacklog').get<string>('activeProfile');
+    return getProfiles().find(p => p.name === name) || getDefaultProfile();
+}
+
+export async function setActiveProfile(name: string): Promise<void> {
+    const value = name === DEFAULT_PROFILE_NAME ? undefined : name;
+    // Remember the choice per workspace when one is open so each repo keeps its own profile
+    const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('adoBacklog').update('activeProfile', value, target);
+}
+
+/**
+ * Writes a profile back to settings: the top-level settings for the Default
+ * profile, otherwise its entry in `adoBacklog.profiles`. Values are written
+ * where the profile is already defined, else to the workspace when one is open.
+ */
+export async function saveProfile(profile: ConnectionProfile): Promise<void> {
+    const config = vscode.workspace.getConfiguration('adoBacklog');
+    const fallbackTarget = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    const targetOf = (key: string) => {
+        const inspected = config.inspect(key);
+        if (inspected?.workspaceFolderValue !== undefined) { return vscode.ConfigurationTarget.WorkspaceFolder; }
+        if (inspected?.workspaceValue !== undefined) { return vscode.ConfigurationTarget.Workspace; }
+        if (inspected?.globalValue !== undefined) { return vscode.ConfigurationTarget.Global; }
+        return fallbackTarget;
+    };
+
+    if (profile.name === DEFAULT_PROFILE_NAME) {
+        const values: Record<string, unknown> = {
+            organizationUrl: profile.organizationUrl,
+            project: profile.project,
+            serverType: profile.serverType,
+            authenticationMethod: profile.authenticationMethod,
+            tenantId: profile.tenantId,
+            apiVersion: profile.apiVersion,
+            areaPaths: profile.areaPaths,
+            teams: profile.teams,
+            defaultIterationPath: profile.defaultIterationPath
+        };
+        for (const [key, value] of Object.entries(values)) {
+            await config.update(key, value === '' ? undefined : value, targetOf(key));
+        }
+        return;
+    }
+
+    const configured = config.get<Partial<ConnectionProfile>[]>('profiles') || [];
+    const { name, ...rest } = profile;
+    const entry = { ...configured.find(p => p.name === name), name, ...rest };
+    const updated = configured.some(p => p.name === name)
+        ? configured.map(p => p.name === name ? entry : p)
+        : [...configured, entry];
+    await config.update('profiles', updated, targetOf('profiles'));
+}
+
+/** Lets the user pick a profile. Returns the chosen name, or undefined if cancelled. */
+export async function pickProfile(): Promise<string | undefined> {
+    const active = getActiveProfile();
+    const defaults = getDefaultProfile();
+    const profiles = defaults.organizationUrl ? [defaults, ...getProfiles()] : getProfiles();
+
+    const editItem: vscode.QuickPickItem = { label: '$(gear) Edit profiles in settings' };
+    const items: vscode.QuickPickItem[] = profiles.map(p => ({
+        label: p.name === active.name ? `$(check) ${p.name}` : p.name,
+        description: p.project,
+        detail: p.organizationUrl
+    }));
+    items.push({ label: '', kind: vscode.QuickPickItemKind.Separator }, editItem);
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Switch Azure DevOps Profile',
+        placeHolder: `Current profile: ${active.name}`
+    });
+    if (!picked) { return undefined; }
+    if (picked === editItem) {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'adoBacklog.profiles');
+        return undefined;
+    }
+    return profiles[items.indexOf(picked)].name;
+}
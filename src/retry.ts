@@ -0,0 +1,173 @@
+import type { CancellationToken } from 'vscode';
+
+/** Reads are safe to repeat; writes are only retried when the server refused them outright. */
+export type RequestKind = 'read' | 'write';
+
+export interface RetryInfo {
+    /** The attempt that failed, starting at 1. */
+    attempt: number;
+    delayMs: number;
+    /** True for rate limiting (429), as opposed to a transient failure. */
+    throttled: boolean;
+    /** Rate-limited resource from `X-RateLimit-Resource`, e.g. `Core`. */
+    resource?: string;
+    error: any;
+}
+
+export interface RetryOptions {
+    token?: CancellationToken;
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    /** Called before waiting to retry a failed call. */
+    onRetry?: (retry: RetryInfo) => void;
+    /** Called whenever a call succeeds. */
+    onSuccess?: () => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 60 * 1000;
+
+/** Gateway and availability errors worth another try. */
+const TRANSIENT_STATUS_CODES = [500, 502, 503, 504];
+const TRANSIENT_NETWORK_ERRORS = ['ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ECONNREFUSED'];
+
+/** Thrown when a request is abandoned because its cancellation token fired. */
+export class RequestCancelledError extends Error {
+    constructor() {
+        super('Request cancelled');
+        this.name = 'RequestCancelledError';
+    }
+}
+
+function getHeader(error: any, name: string): string | undefined {
+    const value = error?.responseHeaders?.[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+export function isThrottled(error: any): boolean {
+    return error?.statusCode === 429;
+}
+
+/**
+ * Whether a failed call may be repeated. A 429 means the server didn't run the request, so
+ * it is safe for writes too; anything else might have been applied and is only retried for reads.
+ */
+export function isRetryable(error: any, kind: RequestKind): boolean {
+    if (isThrottled(error)) return true;
+    if (kind === 'write') return false;
+    return TRANSIENT_STATUS_CODES.includes(error?.statusCode) || TRANSIENT_NETWORK_ERRORS.includes(error?.code);
+}
+
+/**
+ * How long to wait before the next attempt. The server's `Retry-After` or `X-RateLimit-Reset`
+ * wins; otherwise exponential backoff with jitter so parallel requests don't retry in lockstep.
+ */
+export function getRetryDelay(
+    error: any,
+    attempt: number,
+    options: { baseDelayMs?: number; maxDelayMs?: number } = {},
+    now = Date.now(),
+    random = Math.random
+): number {
+    const maxDelay = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+    // Retry-After is either seconds or an HTTP date
+    const retryAfter = getHeader(error, 'retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const ms = isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - now;
+        if (isFinite(ms)) return Math.min(Math.max(ms, 0), maxDelay);
+    }
+    const reset = Number(getHeader(error, 'x-ratelimit-reset'));
+    if (getHeader(error, 'x-ratelimit-remaining') === '0' && reset > 0) {
+        return Math.min(Math.max(reset * 1000 - now, 0), maxDelay);
+    }
+
+    const backoff = Math.min((options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** (attempt - 1), maxDelay);
+    return backoff / 2 + random() * backoff / 2;
+}
+
+/** Resolves after `ms`, or rejects as soon as the token is cancelled. */
+function delay(ms: number, token?: CancellationToken): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            listener?.dispose();
+            resolve();
+        }, ms);
+        const listener = token?.onCancellationRequested(() => {
+            clearTimeout(timer);
+            listener?.dispose();
+            reject(new RequestCancelledError());
+        });
+    });
+}
+
+/** Settles with the call, or rejects early when the token is cancelled; the request itself runs to completion. */
+function raceCancellation<T>(promise: Promise<T>, token?: CancellationToken): Promise<T> {
+    if (!token) return promise;
+    return new Promise((resolve, reject) => {
+        const listener = token.onCancellationRequested(() => {
+            listener.dispose();
+            reject(new RequestCancelledError());
+        });
+        promise.then(value => {
+            listener.dispose();
+            resolve(value);
+        }, error => {
+            listener.dispose();
+            reject(error);
+        });
+    });
+}
+
+/** Runs a request, retrying transient failures and throttling with backoff until it succeeds or attempts run out. */
+export async function withRetry<T>(kind: RequestKind, call: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    for (let attempt = 1; ; attempt++) {
+        if (options.token?.isCancellationRequested) {
+            throw new RequestCancelledError();
+        }
+        try {
+            const result = await raceCancellation(call(), options.token);
+            options.onSuccess?.();
+            return result;
+        } catch (error: any) {
+            if (error instanceof RequestCancelledError || attempt >= maxAttempts || !isRetryable(error, kind)) {
+                throw error;
+            }
+            const delayMs = getRetryDelay(error, attempt, options);
+            options.onRetry?.({
+                attempt,
+                delayMs,
+                throttled: isThrottled(error),
+                resource: getHeader(error, 'x-ratelimit-resource'),
+                error
+            });
+            await delay(delayMs, options.token);
+        }
+    }
+}
+
+/** Reads are recognised by name, e.g. `getWorkItems` or `queryByWiql`; everything else counts as a write. */
+export function getRequestKind(methodName: string): RequestKind {
+    return /^(get|query|read|search|connect)/.test(methodName) ? 'read' : 'write';
+}
+
+/**
+ * Wraps an API client so every method call goes through `withRetry`. Methods returning another
+ * client, such as `WebApi.getWorkItemTrackingApi`, hand back a wrapped client as well.
+ */
+export function withRetries<T extends object>(api: T, options: RetryOptions = {}): T {
+    return new Proxy(api, {
+        get(target, property, receiver) {
+            const value = Reflect.get(target, property, receiver);
+            if (typeof value !== 'function' || typeof property !== 'string') return value;
+            if (/^get\w*Api$/.test(property)) {
+                return async (...args: any[]) => withRetries(await value.apply(target, args), options);
+            }
+            return (...args: any[]) => withRetry(getRequestKind(property), () => value.apply(target, args), options);
+        }
+    });
+}
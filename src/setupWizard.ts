@@ -0,0 +1,292 @@
+import * as vscode from 'vscode';
+import * as azdev from 'azure-devops-node-api';
+import { IRequestHandler } from 'azure-devops-node-api/interfaces/common/VsoBaseInterfaces';
+import { TreeStructureGroup, WorkItemClassificationNode } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { AuthMethod, AuthStrategy } from './auth';
+import { ConnectionProfile, ServerType, getActiveProfile, saveProfile } from './profiles';
+import { BacklogTeam, discoverTeams } from './teams';
+import { createConnection, getCollectionUrl, negotiateApiVersion, testConnection, validateCollectionUrl } from './connection';
+import { withRetries } from './retry';
+import { showError } from './notify';
+
+const TOTAL_STEPS = 6;
+
+const AUTH_METHODS: { method: AuthMethod; label: string; detail: string; serverTypes: ServerType[] }[] = [
+    { method: 'pat', label: 'Personal Access Token', detail: 'Kept in VS Code\'s secure storage', serverTypes: ['cloud', 'server'] },
+    { method: 'microsoft', label: 'Microsoft account', detail: 'The Microsoft Entra ID account signed in to VS Code', serverTypes: ['cloud'] },
+    { method: 'azureCli', label: 'Azure CLI', detail: 'A token from a locally installed Azure CLI (run `az login` first)', serverTypes: ['cloud'] },
+    { method: 'ntlm', label: 'Windows account (NTLM)', detail: 'DOMAIN\\user and password, kept in secure storage', serverTypes: ['server'] },
+    { method: 'basic', label: 'Username and password', detail: 'Basic authentication, kept in secure storage', serverTypes: ['server'] }
+];
+
+function stepTitle(step: number): string {
+    return `Set Up Azure DevOps (${step}/${TOTAL_STEPS})`;
+}
+
+/** Guesses the server type from the URL: Azure DevOps Services lives on dev.azure.com or *.visualstudio.com. */
+export function guessServerType(organizationUrl: string): ServerType {
+    try {
+        const host = new URL(organizationUrl.trim()).hostname.toLowerCase();
+        return host === 'dev.azure.com' || host.endsWith('.visualstudio.com') ? 'cloud' : 'server';
+    } catch {
+        return 'cloud';
+    }
+}
+
+/** Flattens a classification node tree into backslash-separated paths, as used in WIQL. */
+export function flattenClassificationNodes(
+    node: WorkItemClassificationNode,
+    parentPath?: string
+): { path: string; depth: number; node: WorkItemClassificationNode }[] {
+    const path = parentPath ? `${parentPath}\\${node.name}` : node.name || '';
+    const depth = parentPath ? parentPath.split('\\').length : 0;
+    const result = [{ path, depth, node }];
+    for (const child of node.children || []) {
+        result.push(...flattenClassificationNodes(child, path));
+    }
+    return result;
+}
+
+/** Multi-select quick pick; resolves with the chosen values, or undefined if cancelled. */
+function pickMany(
+    title: string,
+    placeholder: string,
+    items: (vscode.QuickPickItem & { value: string })[],
+    selected: string[]
+): Promise<string[] | undefined> {
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { value: string }>();
+        quickPick.title = title;
+        quickPick.placeholder = placeholder;
+        quickPick.canSelectMany = true;
+        quickPick.matchOnDescription = true;
+        quickPick.ignoreFocusOut = true;
+        quickPick.items = items;
+        quickPick.selectedItems = items.filter(i => selected.includes(i.value));
+        let accepted = false;
+        quickPick.onDidAccept(() => {
+            accepted = true;
+            resolve(quickPick.selectedItems.map(i => i.value));
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            if (!accepted) { resolve(undefined); }
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+function isUnauthorized(error: any): boolean {
+    return error?.statusCode === 401 || error?.statusCode === 403;
+}
+
+/**
+ * Walks through organization URL, authentication, project, teams or area
+ * paths and default iteration, then validates the connection before writing settings.
+ * Starts from the active profile, so running it again edits the existing
+ * setup. Returns true if settings were saved.
+ */
+export async function runSetupWizard(createAuthStrategy: (profile: ConnectionProfile) => AuthStrategy): Promise<boolean> {
+    const draft: ConnectionProfile = { ...getActiveProfile() };
+
+    // 1. Organization or collection URL
+    const organizationUrl = await vscode.window.showInputBox({
+        title: stepTitle(1),
+        prompt: 'Organization URL (Azure DevOps Services) or collection URL (Azure DevOps Server)',
+        placeHolder: 'https://dev.azure.com/yourorg or https://tfs.corp/tfs/DefaultCollection',
+        value: draft.organizationUrl,
+        ignoreFocusOut: true,
+        validateInput: value => {
+            if (!value.trim()) { return 'Enter a URL'; }
+            return validateCollectionUrl({ ...draft, organizationUrl: value, serverType: guessServerType(value) });
+        }
+    });
+    if (organizationUrl === undefined) { return false; }
+    const serverType = guessServerType(organizationUrl);
+    if (serverType !== draft.serverType || getCollectionUrl({ ...draft, organizationUrl }) !== getCollectionUrl(draft)) {
+        // A different server may not support the pinned API version
+        draft.apiVersion = undefined;
+    }
+    draft.organizationUrl = getCollectionUrl({ ...draft, organizationUrl });
+    draft.serverType = serverType;
+
+    // 2. Authentication method
+    const methods = AUTH_METHODS.filter(m => m.serverTypes.includes(serverType));
+    const pickedMethod = await vscode.window.showQuickPick(
+        methods.map(m => ({
+            label: m.method === draft.authenticationMethod ? `$(check) ${m.label}` : m.label,
+            detail: m.detail,
+            method: m.method
+        })),
+        { title: stepTitle(2), placeHolder: 'How do you want to sign in?', ignoreFocusOut: true }
+    );
+    if (!pickedMethod) { return false; }
+    draft.authenticationMethod = pickedMethod.method;
+
+    const auth = createAuthStrategy(draft);
+    try {
+        // 3. Project, signing in first if needed
+        const connect = async (forceSignIn: boolean): Promise<azdev.WebApi | undefined> => {
+            let handler: IRequestHandler | null = forceSignIn ? null : await auth.getHandler().catch(() => null);
+            if (!handler) {
+                if (!(await auth.signIn())) { return undefined; }
+                handler = await auth.getHandler();
+                if (!handler) { return undefined; }
+            }
+            const { connection, versionHandler } = createConnection(draft, handler);
+            if (draft.serverType === 'server' && !draft.apiVersion) {
+                versionHandler.maxVersion = await negotiateApiVersion(connection).catch(() => undefined);
+            }
+            return withRetries(connection);
+        };
+
+        let connection = await connect(false);
+        if (!connection) { return false; }
+
+        const loadProjects = (conn: azdev.WebApi) => vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading Azure DevOps projects...' },
+            async () => (await conn.getCoreApi()).getProjects()
+        );
+        let projects;
+        try {
+            projects = await loadProjects(connection);
+        } catch (error: any) {
+            if (!isUnauthorized(error)) { throw error; }
+            const retry = await vscode.window.showWarningMessage(
+                'Azure DevOps rejected your credentials.', 'Sign In Again'
+            );
+            if (retry !== 'Sign In Again') { return false; }
+            connection = await connect(true);
+            if (!connection) { return false; }
+            projects = await loadProjects(connection);
+        }
+        if (projects.length === 0) {
+            vscode.window.showWarningMessage('No projects found. Check that your account has access to this organization.');
+            return false;
+        }
+
+        const pickedProject = await vscode.window.showQuickPick(
+            [...projects]
+                .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+                .map(p => ({
+                    label: p.name === draft.project ? `$(check) ${p.name}` : p.name || '',
+                    description: p.description,
+                    name: p.name || ''
+                })),
+            { title: stepTitle(3), placeHolder: 'Select a project', matchOnDescription: true, ignoreFocusOut: true }
+        );
+        if (!pickedProject) { return false; }
+        if (pickedProject.name !== draft.project) {
+            draft.areaPaths = [];
+            draft.teams = [];
+            draft.defaultIterationPath = undefined;
+        }
+        draft.project = pickedProject.name;
+
+        // 4. Tree roots: the project's teams, or area paths chosen by hand
+        const witApi = await connection.getWorkItemTrackingApi();
+        const { teams, areas } = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Loading teams and area paths...' },
+            async () => {
+                const areaRoot = await witApi.getClassificationNode(draft.project, TreeStructureGroup.Areas, undefined, 10);
+                // Teams are a nicety; area paths are still selectable without them
+                const teams = await discoverTeams(connection!, draft.project).catch(() => [] as BacklogTeam[]);
+                return { teams, areas: flattenClassificationNodes(areaRoot) };
+            }
+        );
+
+        const useAreaPaths = teams.length === 0 || (await (async () => {
+            const teamsItem = { label: '$(organization) Teams', detail: 'Show the project\'s teams, scoped to the area paths in their team settings' };
+            const areasItem = { label: '$(list-tree) Area paths', detail: 'Choose area paths by hand' };
+            const mode = await vscode.window.showQuickPick(
+                draft.areaPaths.length > 0 ? [areasItem, teamsItem] : [teamsItem, areasItem],
+                { title: stepTitle(4), placeHolder: 'What should the backlog tree be organized by?', ignoreFocusOut: true }
+            );
+            return mode ? mode === areasItem : undefined;
+        })());
+        if (useAreaPaths === undefined) { return false; }
+
+        if (useAreaPaths) {
+            const teamsByArea = new Map<string, string[]>();
+            for (const team of teams) {
+                for (const area of team.areas) {
+                    teamsByArea.set(area.path, [...(teamsByArea.get(area.path) || []), team.name]);
+                }
+            }
+            const pickedAreas = await pickMany(
+                stepTitle(4),
+                'Select the area paths to show in the backlog',
+                areas.map(a => ({
+                    label: `${'  '.repeat(a.depth)}${a.node.name}`,
+                    description: teamsByArea.get(a.path)?.join(', '),
+                    detail: a.depth === 0 ? undefined : a.path,
+                    value: a.path
+                })),
+                draft.areaPaths
+            );
+            if (!pickedAreas) { return false; }
+            if (pickedAreas.length === 0) {
+                vscode.window.showWarningMessage('Select at least one area path to show in the backlog.');
+                return false;
+            }
+            draft.areaPaths = pickedAreas;
+            draft.teams = [];
+        } else {
+            const pickedTeams = await pickMany(
+                stepTitle(4),
+                'Select the teams to show, or none to show every team',
+                teams.map(t => ({
+                    label: t.name,
+                    description: t.areas.map(a => a.path).join(', '),
+                    value: t.name
+                })),
+                draft.teams
+            );
+            if (!pickedTeams) { return false; }
+            draft.teams = pickedTeams.length === teams.length ? [] : pickedTeams;
+            draft.areaPaths = [];
+        }
+
+        // 5. Default iteration for new work items
+        const iterationRoot = await witApi.getClassificationNode(draft.project, TreeStructureGroup.Iterations, undefined, 10);
+        const iterations = flattenClassificationNodes(iterationRoot).filter(i => i.depth > 0);
+        const noneItem = { label: '$(circle-slash) None', description: 'Use the project\'s root iteration', path: '' };
+        const formatDate = (value: any) => value ? new Date(value).toLocaleDateString() : '';
+        const pickedIteration = await vscode.window.showQuickPick(
+            [noneItem, ...iterations.map(i => {
+                const start = formatDate(i.node.attributes?.startDate);
+                const finish = formatDate(i.node.attributes?.finishDate);
+                return {
+                    label: `${'  '.repeat(i.depth - 1)}${i.path === draft.defaultIterationPath ? '$(check) ' : ''}${i.node.name}`,
+                    description: start && finish ? `${start} – ${finish}` : undefined,
+                    path: i.path
+                };
+            })],
+            { title: stepTitle(5), placeHolder: 'Default iteration for new work items', matchOnDescription: true, ignoreFocusOut: true }
+        );
+        if (!pickedIteration) { return false; }
+        draft.defaultIterationPath = pickedIteration.path || undefined;
+
+        // 6. Validate the whole connection before writing anything
+        const handler = await auth.getHandler();
+        const stages = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: stepTitle(6) + ': validating connection...' },
+            () => testConnection(draft, handler)
+        );
+        const failed = stages.find(s => !s.ok);
+        if (failed) {
+            showError(`Setup could not be validated at the ${failed.name} stage: ${failed.detail}`);
+            return false;
+        }
+
+        await saveProfile(draft);
+        const scope = draft.areaPaths.length > 0
+            ? `${draft.areaPaths.length} area path${draft.areaPaths.length === 1 ? '' : 's'}`
+            : draft.teams.length > 0 ? `${draft.teams.length} team${draft.teams.length === 1 ? '' : 's'}` : 'all teams';
+        vscode.window.showInformationMessage(`Azure DevOps is set up for ${draft.project} with ${scope}.`);
+        return true;
+    } finally {
+        auth.dispose();
+    }
+}
@@ -0,0 +1,84 @@
+import * as azdev from 'azure-devops-node-api';
+
+/** An area path a team owns, as configured in its team settings. */
+export interface TeamArea {
+    path: string;
+    includeChildren: boolean;
+}
+
+/** A tree root: a discovered team with its area scope, or a manually configured area path. */
+export interface BacklogTeam {
+    /** Stable key: the team ID for discovered teams, the area path for manual entries. */
+    key: string;
+    name: string;
+    /** Set for discovered teams only. */
+    id?: string;
+    areas: TeamArea[];
+    /** Area path given to work items created or moved under this root. */
+    defaultAreaPath: string;
+}
+
+const TEAMS_PAGE_SIZE = 100;
+
+/** All teams in a project with the area paths from their team settings, sorted by name. */
+export async function discoverTeams(connection: azdev.WebApi, project: string): Promise<BacklogTeam[]> {
+    const coreApi = await connection.getCoreApi();
+    const workApi = await connection.getWorkApi();
+
+    const teams = [];
+    for (let skip = 0; ; skip += TEAMS_PAGE_SIZE) {
+        const page = await coreApi.getTeams(project, false, TEAMS_PAGE_SIZE, skip);
+        teams.push(...page);
+        if (page.length < TEAMS_PAGE_SIZE) break;
+    }
+
+    const discovered = await Promise.all(teams.map(async (team): Promise<BacklogTeam | null> => {
+        const fieldValues = await workApi.getTeamFieldValues({ project, team: team.name, teamId: team.id });
+        // Teams scoped by a custom team field rather than area path can't be shown as area roots
+        if (fieldValues.field?.referenceName && fieldValues.field.referenceName !== 'System.AreaPath') {
+            return null;
+        }
+        const areas = (fieldValues.values || [])
+            .filter(v => v.value)
+            .map(v => ({ path: v.value!, includeChildren: !!v.includeChildren }));
+        if (areas.length === 0) return null;
+        return {
+            key: team.id!,
+            name: team.name || team.id!,
+            id: team.id,
+            areas,
+            defaultAreaPath: fieldValues.defaultValue || areas[0].path
+        };
+    }));
+
+    return discovered
+        .filter((t): t is BacklogTeam => !!t)
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Tree roots for a manual `areaPaths` list; each path includes its sub-areas. */
+export function getManualTeams(areaPaths: string[]): BacklogTeam[] {
+    return areaPaths.map(path => ({
+        key: path,
+        name: path.split('\\').pop() || path, // Get last segment
+        areas: [{ path, includeChildren: true }],
+        defaultAreaPath: path
+    }));
+}
+
+/** Picks the named teams in the given order, or all of them when no names are given. */
+export function selectTeams(teams: BacklogTeam[], names: string[]): BacklogTeam[] {
+    if (names.length === 0) return teams;
+    return names
+        .map(name => teams.find(t => t.name.toLowerCase() === name.toLowerCase()))
+        .filter((t): t is BacklogTeam => !!t);
+}
+
+/** True if an area path falls in the team's scope, matching WIQL's case-insensitive `UNDER` and `=`. */
+export function isInTeamScope(team: BacklogTeam, areaPath: string): boolean {
+    const path = areaPath.toLowerCase();
+    return team.areas.some(area => {
+        const scope = area.path.toLowerCase();
+        return path === scope || (area.includeChildren && path.startsWith(scope + '\\'));
+    });
+}
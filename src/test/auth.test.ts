@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { AccessToken, BearerAuthStrategy, TokenSource, getJwtExpiry } from '../auth';
+import { AdoService } from '../adoService';
+
+class FakeTokenSource implements TokenSource {
+	calls: boolean[] = [];
+	constructor(public token: AccessToken | undefined) { }
+
+	async getToken(interactive: boolean): Promise<AccessToken | undefined> {
+		this.calls.push(interactive);
+		return this.token;
+	}
+}
+
+class FakeMemento {
+	private values = new Map<string, any>();
+	keys(): readonly string[] { return [...this.values.keys()]; }
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) : defaultValue;
+	}
+	async update(key: string, value: any): Promise<void> {
+		if (value === undefined) { this.values.delete(key); } else { this.values.set(key, value); }
+	}
+}
+
+suite('Auth Test Suite', () => {
+	test('Bearer strategy is signed out when the source has no token', async () => {
+		const strategy = new BearerAuthStrategy('microsoft', new FakeTokenSource(undefined));
+		assert.strictEqual(await strategy.getHandler(), null);
+		strategy.dispose();
+	});
+
+	test('Bearer strategy never prompts when fetching a handler', async () => {
+		const source = new FakeTokenSource({ token: 'abc', expiresOn: Date.now() + 60 * 60 * 1000 });
+		const strategy = new BearerAuthStrategy('azureCli', source);
+		assert.ok(await strategy.getHandler());
+		assert.deepStrictEqual(source.calls, [false]);
+		strategy.dispose();
+	});
+
+	test('Bearer strategy re-acquires a token that is about to expire', async () => {
+		const source = new FakeTokenSource({ token: 'old', expiresOn: Date.now() + 60 * 1000 });
+		const strategy = new BearerAuthStrategy('microsoft', source);
+		await strategy.getHandler();
+		source.token = { token: 'new', expiresOn: Date.now() + 60 * 60 * 1000 };
+		await strategy.getHandler();
+		assert.strictEqual(source.calls.length, 2);
+		strategy.dispose();
+	});
+
+	test('Signing out ignores the token source until signing in again', async () => {
+		const source = new FakeTokenSource({ token: 'abc' });
+		const strategy = new BearerAuthStrategy('microsoft', source);
+		const events: boolean[] = [];
+		strategy.onDidChange(e => events.push(e.refreshed));
+
+		await strategy.signOut();
+		assert.strictEqual(await strategy.getHandler(), null);
+		assert.ok(await strategy.signIn());
+		assert.ok(await strategy.getHandler());
+		assert.deepStrictEqual(events, [false, false]);
+		strategy.dispose();
+	});
+
+	test('Signing out is remembered after a reload', async () => {
+		const state = new FakeMemento();
+		const source = new FakeTokenSource({ token: 'abc' });
+		await new BearerAuthStrategy('microsoft', source, state, 'signedOut/Work').signOut();
+
+		const reloaded = new BearerAuthStrategy('microsoft', source, state, 'signedOut/Work');
+		assert.strictEqual(await reloaded.getHandler(), null);
+		assert.ok(await new BearerAuthStrategy('microsoft', source, state, 'signedOut/Home').getHandler());
+		assert.ok(await reloaded.signIn());
+		assert.ok(await new BearerAuthStrategy('microsoft', source, state, 'signedOut/Work').getHandler());
+		reloaded.dispose();
+	});
+
+	test('AdoService picks up credentials from an injected strategy', async () => {
+		const service = new AdoService(() => new BearerAuthStrategy('microsoft', new FakeTokenSource({ token: 'abc' })));
+		await service.whenReady();
+		assert.ok(service.isSignedIn());
+	});
+
+	test('Reads expiry from a JWT', () => {
+		const payload = Buffer.from(JSON.stringify({ exp: 1700000000 })).toString('base64url');
+		assert.strictEqual(getJwtExpiry(`header.${payload}.signature`), 1700000000 * 1000);
+		assert.strictEqual(getJwtExpiry('not-a-jwt'), undefined);
+	});
+});
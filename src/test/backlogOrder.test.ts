@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { byBacklogOrder, getReorderedRanks } from '../backlogOrder';
+
+const RANK = 'Microsoft.VSTS.Common.StackRank';
+
+function item(id: number, rank?: number): WorkItem {
+	return { id, fields: { 'System.Title': `Item ${id}`, ...rank !== undefined ? { [RANK]: rank } : {} } };
+}
+
+// Applies new ranks and reads back the order the tree would show
+function reorder(siblings: WorkItem[], movedIds: number[], beforeId?: number): number[] {
+	const ranks = getReorderedRanks(siblings, RANK, movedIds, beforeId);
+	return siblings
+		.map(sibling => ranks.has(sibling.id!) ? { ...sibling, fields: { ...sibling.fields, [RANK]: ranks.get(sibling.id!) } } : sibling)
+		.sort(byBacklogOrder(RANK))
+		.map(sibling => sibling.id!);
+}
+
+suite('Backlog Order Test Suite', () => {
+	test('Orders by rank with unranked items last', () => {
+		const items = [item(1), item(2, 300), item(3, 100), item(4, 200)];
+		assert.deepStrictEqual([...items].sort(byBacklogOrder(RANK)).map(i => i.id), [3, 4, 2, 1]);
+	});
+
+	test('Ranks moved items between their new neighbours', () => {
+		const siblings = [item(1, 100), item(2, 200), item(3, 300), item(4, 400)];
+		const ranks = getReorderedRanks(siblings, RANK, [4], 2);
+		assert.deepStrictEqual([...ranks], [[4, 150]]);
+		assert.deepStrictEqual(reorder(siblings, [1, 3]), [2, 4, 1, 3]);
+		assert.deepStrictEqual(reorder(siblings, [3, 4], 1), [3, 4, 1, 2]);
+		assert.strictEqual(getReorderedRanks(siblings, RANK, [1], 2).size, 0);
+	});
+
+	test('Renumbers the items below when the ranks leave no room', () => {
+		const siblings = [item(1, 100), item(2, 100.0005), item(3, 100.001), item(4, 500)];
+		const ranks = getReorderedRanks(siblings, RANK, [4], 2);
+		assert.deepStrictEqual([...ranks.keys()], [4, 2, 3]);
+		assert.deepStrictEqual(reorder(siblings, [4], 2), [1, 4, 2, 3]);
+	});
+
+	test('Ranks unranked items above a moved item so it stays below them', () => {
+		const siblings = [item(1, 100), item(2), item(3)];
+		assert.deepStrictEqual(reorder(siblings, [1]), [2, 3, 1]);
+		assert.deepStrictEqual(reorder(siblings, [3], 2), [1, 3, 2]);
+		assert.deepStrictEqual([...getReorderedRanks(siblings, RANK, [3], 2).keys()], [3]);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { BacklogTree, hasFilters, matchesFilters } from '../backlogTree';
+
+function item(id: number, fields: Record<string, any> = {}): WorkItem {
+	return { id, fields: { 'System.Title': `Item ${id}`, ...fields } };
+}
+
+// Epic 1 > Feature 2 > Stories 3 and 4 > Task 5 under story 3
+const items = [
+	item(1, { 'System.Title': 'Checkout epic' }),
+	item(2, { 'System.Title': 'Payments' }),
+	item(3, { 'System.Title': 'Card payments', 'System.IterationPath': 'Web\\Sprint 5', 'System.Tags': 'ui; Urgent' }),
+	item(4, { 'System.Title': 'Invoices', 'System.AssignedTo': { displayName: 'Jane Doe', uniqueName: 'jane@contoso.com' } }),
+	item(5, { 'System.Title': 'Build form', Hours: 6 })
+];
+const links = [
+	{ target: 1 },
+	{ source: 1, target: 2 },
+	{ source: 2, target: 3 },
+	{ source: 2, target: 4 },
+	{ source: 3, target: 5 }
+];
+
+suite('Backlog Tree Test Suite', () => {
+	test('Builds a parent/child index from link query results', () => {
+		const tree = BacklogTree.fromLinks(items, links);
+		assert.deepStrictEqual(tree.roots.map(i => i.id), [1]);
+		assert.deepStrictEqual(tree.getChildren(2).map(i => i.id), [3, 4]);
+		assert.deepStrictEqual(tree.getAll().map(i => i.id), [1, 2, 3, 5, 4]);
+		assert.strictEqual(tree.rollup(1, i => i.fields?.Hours), 6);
+		assert.deepStrictEqual([...tree.getParents()].map(([id, parent]) => [id, parent.id]), [[2, 1], [3, 2], [4, 2], [5, 3]]);
+	});
+
+	test('Filters keep matches together with their ancestors', () => {
+		const tree = BacklogTree.fromLinks(items, links).filter({ iteration: 'web\\sprint 5' });
+		assert.deepStrictEqual(tree.roots.map(i => i.id), [1]);
+		assert.deepStrictEqual(tree.getChildren(1).map(i => i.id), [2]);
+		assert.deepStrictEqual(tree.getChildren(2).map(i => i.id), [3]);
+
+		assert.deepStrictEqual(BacklogTree.fromLinks(items, links).filter({ searchText: 'nothing' }).roots, []);
+	});
+
+	test('Matches filters like the WIQL they replace', () => {
+		assert.ok(matchesFilters(items[2], { searchText: 'CARD', tags: ['urgent'] }));
+		assert.ok(!matchesFilters(items[2], { tags: ['ui', 'backend'] }));
+		assert.ok(matchesFilters(items[3], { searchText: '4', assignedTo: 'jane@' }));
+		assert.ok(!matchesFilters(items[2], { iteration: 'Web\\Sprint' }));
+		assert.ok(!hasFilters({ tags: [] }));
+	});
+});
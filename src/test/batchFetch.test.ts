@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { Wiql, WorkItem, WorkItemQueryResult } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { chunk, fetchWorkItemsInBatches, mapConcurrent, queryLinkTree, queryWorkItemIds } from '../batchFetch';
+
+/** Stands in for the work item tracking API, recording how it is called. */
+class FakeWorkItemApi {
+	batches: number[][] = [];
+	queries: { query: string; top?: number }[] = [];
+	inFlight = 0;
+	maxInFlight = 0;
+
+	constructor(
+		private readonly existing: Set<number>,
+		/** Link query results per top-level ID: the number of descendants under it. */
+		private readonly descendants: Map<number, number> = new Map()
+	) { }
+
+	async getWorkItems(ids: number[]): Promise<WorkItem[]> {
+		if (ids.length > 200) throw new Error('VS402335: more than 200 IDs requested');
+		this.batches.push(ids);
+		this.inFlight++;
+		this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+		await new Promise(resolve => setTimeout(resolve, 1));
+		this.inFlight--;
+		// Omit policy: missing items come back as null
+		return ids.map(id => this.existing.has(id) ? { id, fields: {} } : null!);
+	}
+
+	async queryByWiql(wiql: Wiql, _teamContext?: unknown, _timePrecision?: boolean, top?: number): Promise<WorkItemQueryResult> {
+		this.queries.push({ query: wiql.query!, top });
+		const inList = /\[Source\]\.\[System\.Id\] IN \(([^)]*)\)/.exec(wiql.query!);
+		if (inList) {
+			const relations = inList[1].split(', ').map(Number).flatMap(root => [
+				{ target: { id: root } },
+				...Array.from({ length: this.descendants.get(root) || 0 }, (_, i) => ({ source: { id: root }, target: { id: root * 1000 + i } }))
+			]);
+			return { workItemRelations: relations.slice(0, top) };
+		}
+		const after = Number(/\[System\.Id\] > (\d+)/.exec(wiql.query!)![1]);
+		const ids = [...this.existing].filter(id => id > after).sort((a, b) => a - b).slice(0, top);
+		return { workItems: ids.map(id => ({ id })) };
+	}
+}
+
+const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+suite('Batch Fetch Test Suite', () => {
+	test('Splits IDs into batches of at most 200', () => {
+		assert.deepStrictEqual(chunk(range(1, 5), 2), [[1, 2], [3, 4], [5]]);
+		assert.deepStrictEqual(chunk([], 200), []);
+	});
+
+	test('Limits concurrency and keeps results in input order', async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		const results = await mapConcurrent(range(1, 10), 3, async n => {
+			inFlight++;
+			maxInFlight = Math.max(maxInFlight, inFlight);
+			await new Promise(resolve => setTimeout(resolve, 10 - n));
+			inFlight--;
+			return n * 2;
+		});
+		assert.deepStrictEqual(results, range(1, 10).map(n => n * 2));
+		assert.strictEqual(maxInFlight, 3);
+	});
+
+	test('Rejects with the first failure', async () => {
+		await assert.rejects(mapConcurrent([1, 2, 3], 2, async n => {
+			if (n === 2) throw new Error('boom');
+			return n;
+		}), /boom/);
+	});
+
+	test('Fetches large ID sets in bounded, concurrent batches', async () => {
+		const ids = range(1, 950);
+		const api = new FakeWorkItemApi(new Set(ids.filter(id => id !== 500)));
+		const progress: number[] = [];
+		const items = await fetchWorkItemsInBatches(api, ids, ['System.Title'], {
+			concurrency: 2,
+			onProgress: (loaded, total) => {
+				assert.strictEqual(total, 950);
+				progress.push(loaded);
+			}
+		});
+		assert.deepStrictEqual(api.batches.map(b => b.length), [200, 200, 200, 200, 150]);
+		assert.strictEqual(api.maxInFlight, 2);
+		assert.strictEqual(items.length, 949);
+		assert.deepStrictEqual(items.slice(0, 3).map(i => i.id), [1, 2, 3]);
+		assert.deepStrictEqual(progress, [200, 400, 600, 800, 950]);
+	});
+
+	test('Pages WIQL results past the row limit by ID', async () => {
+		const api = new FakeWorkItemApi(new Set(range(1, 25)));
+		const ids = await queryWorkItemIds(api, '[System.TeamProject] = @project', { project: 'Web' }, { pageSize: 10 });
+		assert.deepStrictEqual(ids, range(1, 25));
+		assert.strictEqual(api.queries.length, 3);
+		assert.ok(api.queries[1].query.includes('[System.Id] > 10'));
+		assert.ok(api.queries.every(q => q.top === 10));
+	});
+
+	test('Splits link queries that hit the row limit', async () => {
+		const api = new FakeWorkItemApi(new Set(), new Map([[1, 3], [2, 3], [3, 0]]));
+		const links = await queryLinkTree(api, [1, 2, 3], roots => `SELECT [System.Id] FROM WorkItemLinks WHERE ([Source].[System.Id] IN (${roots.join(', ')}))`, { project: 'Web' }, { maxResults: 6 });
+		// [1, 2, 3] returns 9 rows, over the limit of 6, so it is retried as [1, 2] and then [1] and [2]
+		assert.strictEqual(api.queries.length, 5);
+		assert.strictEqual(links.filter(l => l.source === undefined).length, 3);
+		assert.strictEqual(links.length, 9);
+	});
+});
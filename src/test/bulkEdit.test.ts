@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { addTags, getSelectedNodes, removeTags, summarizeBulkResults } from '../bulkEdit';
+
+suite('Bulk Edit Test Suite', () => {
+	test('Adds and removes tags without duplicates, ignoring case', () => {
+		assert.strictEqual(addTags('UX; Backend', ['ux', 'Groomed']), 'UX; Backend; Groomed');
+		assert.strictEqual(addTags(undefined, ['Groomed']), 'Groomed');
+		assert.strictEqual(removeTags('UX; Backend; Groomed', ['backend', 'Missing']), 'UX; Groomed');
+		assert.strictEqual(removeTags('UX', ['UX']), '');
+	});
+
+	test('Acts on the selection, or the clicked node without one', () => {
+		const clicked = { workItem: { id: 1 } };
+		const team = { type: 'team' };
+		assert.deepStrictEqual(getSelectedNodes(clicked), [clicked]);
+		assert.deepStrictEqual(getSelectedNodes(clicked, [clicked, team, { workItem: { id: 2 } }]).map(n => n.workItem.id), [1, 2]);
+	});
+
+	test('Summarizes how each item fared', () => {
+		assert.strictEqual(summarizeBulkResults('Change State', [{ workItemId: 1 }, { workItemId: 2 }]), 'Change State: 2 work items done.');
+		assert.strictEqual(
+			summarizeBulkResults('Delete', [{ workItemId: 1 }, { workItemId: 2, error: new Error('TF401232') }, { workItemId: 3 }]),
+			'Delete: 2 of 3 work items done, 1 failed.'
+		);
+		assert.strictEqual(summarizeBulkResults('Assign', [{ workItemId: 1, error: new Error('Denied') }]), 'Assign: 1 work item failed.');
+	});
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { BacklogTree } from '../backlogTree';
+import { CacheIndex } from '../cacheIndex';
+
+// Epic 1 > Feature 2 > Stories 3 and 4; Epic 10 in another team's tree
+const webTree = BacklogTree.fromLinks(
+	[1, 2, 3, 4].map(id => ({ id, fields: {} })),
+	[{ target: 1 }, { source: 1, target: 2 }, { source: 2, target: 3 }, { source: 2, target: 4 }]
+);
+const apiTree = BacklogTree.fromLinks([{ id: 10, fields: {} }], [{ target: 10 }]);
+
+suite('Cache Index Test Suite', () => {
+	test('Finds the parents, ancestors and cache entries of an item', () => {
+		const index = new CacheIndex();
+		index.addTree('tree_web', webTree);
+		index.addTree('tree_api', apiTree);
+
+		assert.deepStrictEqual(index.getParents(3), [2]);
+		assert.deepStrictEqual(index.getParents(1), []);
+		assert.deepStrictEqual(index.getAncestors([3]).sort(), [1, 2]);
+		assert.deepStrictEqual(index.getKeys([3]), ['tree_web']);
+		assert.deepStrictEqual(index.getKeys([4, 10]).sort(), ['tree_api', 'tree_web']);
+		assert.ok(index.has(10));
+		assert.ok(!index.has(99));
+	});
+
+	test('Remembers former parents and survives cycles', () => {
+		const index = new CacheIndex();
+		index.addTree('tree_web', webTree);
+		// Story 3 moved under epic 10
+		index.addLink(10, 3);
+		assert.deepStrictEqual(index.getParents(3).sort((a, b) => a - b), [2, 10]);
+
+		index.addLink(3, 1);
+		assert.deepStrictEqual(index.getAncestors([3]).sort((a, b) => a - b), [1, 2, 3, 10]);
+
+		index.clear();
+		assert.ok(!index.has(3));
+	});
+});
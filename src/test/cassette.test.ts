@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { CassettePlayer, CassetteRecorder, Redactor, createReplayClient, getHandlerSecrets, withRecording } from '../cassette';
+import { ConnectionProfile } from '../profiles';
+
+const profile: ConnectionProfile = {
+	name: 'Default', organizationUrl: 'https://dev.azure.com/contoso', project: 'Web',
+	serverType: 'cloud', authenticationMethod: 'pat', areaPaths: [], teams: []
+};
+
+const pat = 'abcdefghijklmnopqrstuvwxyz234567abcdefghijklmnopqrst';
+
+// Stands in for azdev.WebApi with one client and a nested location client
+function fakeConnection() {
+	let calls = 0;
+	const witApi = {
+		vsoClient: { beginGetLocation: async (area: string) => ({ area, releasedVersion: '7.1' }) },
+		getWorkItem: async (id: number) => {
+			calls++;
+			if (id === 404) throw Object.assign(new Error(`Work item ${id} not found`), { statusCode: 404 });
+			return { id, rev: calls, fields: { 'System.AssignedTo': { displayName: 'Jane Doe', uniqueName: 'Jane.Doe@contoso.com' } } };
+		}
+	};
+	return { getWorkItemTrackingApi: async () => witApi };
+}
+
+suite('Cassette Test Suite', () => {
+	test('Scrubs tokens and email addresses', () => {
+		const redactor = new Redactor(['hunter2-secret']);
+		const redacted = redactor.redact({
+			message: `Token ${pat} rejected for jane@contoso.com`,
+			jwt: 'Bearer eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl',
+			authorization: 'Basic Zm9v',
+			assignedTo: 'JANE@contoso.com; bob@contoso.com',
+			note: 'password is hunter2-secret',
+			already: 'user7@example.com'
+		});
+		assert.deepStrictEqual(redacted, {
+			message: 'Token [REDACTED] rejected for user1@example.com',
+			jwt: 'Bearer [REDACTED]',
+			authorization: '[REDACTED]',
+			assignedTo: 'user1@example.com; user2@example.com',
+			note: 'password is [REDACTED]',
+			already: 'user7@example.com'
+		});
+		assert.deepStrictEqual(getHandlerSecrets({ token: pat }), [pat, Buffer.from(pat).toString('base64')]);
+	});
+
+	test('Records calls and replays them without a connection', async () => {
+		const recorder = new CassetteRecorder(profile, [pat]);
+		const connection = withRecording(fakeConnection(), recorder);
+		const witApi = await connection.getWorkItemTrackingApi();
+		await witApi.getWorkItem(1);
+		await witApi.getWorkItem(1);
+		await witApi.vsoClient.beginGetLocation('wit');
+		await assert.rejects(witApi.getWorkItem(404));
+
+		const cassette = JSON.parse(JSON.stringify(recorder.toCassette()));
+		assert.strictEqual(cassette.entries.length, 4);
+		assert.strictEqual(cassette.entries[0].api, 'WorkItemTrackingApi');
+		assert.strictEqual(cassette.entries[2].api, 'WorkItemTrackingApi.vsoClient');
+		assert.strictEqual(cassette.entries[0].result.fields['System.AssignedTo'].uniqueName, 'user1@example.com');
+		assert.strictEqual(cassette.profile.organizationUrl, 'https://dev.azure.com/contoso');
+
+		const replayed = createReplayClient<ReturnType<typeof fakeConnection>>(new CassettePlayer(cassette));
+		const replayApi = await replayed.getWorkItemTrackingApi();
+		// Repeated calls come back in the order they were recorded, then the last one repeats
+		assert.strictEqual((await replayApi.getWorkItem(1)).rev, 1);
+		assert.strictEqual((await replayApi.getWorkItem(1)).rev, 2);
+		assert.strictEqual((await replayApi.getWorkItem(1)).rev, 2);
+		assert.strictEqual((await replayApi.vsoClient.beginGetLocation('wit')).releasedVersion, '7.1');
+		await assert.rejects(replayApi.getWorkItem(404), (e: any) => e.statusCode === 404 && /not found/.test(e.message));
+	});
+
+	test('Falls back to other recordings of a method and reports misses', async () => {
+		const player = new CassettePlayer({
+			version: 1, recordedAt: '2024-05-01T00:00:00Z', profile,
+			entries: [{ api: 'WorkItemTrackingApi', method: 'queryByWiql', args: [{ query: 'changed since Monday' }], result: { workItems: [{ id: 1 }] }, durationMs: 5 }]
+		});
+		assert.deepStrictEqual(await player.play('WorkItemTrackingApi', 'queryByWiql', [{ query: 'changed since Tuesday' }]), { workItems: [{ id: 1 }] });
+		await assert.rejects(player.play('WorkItemTrackingApi', 'getWorkItem', [1]), /No recorded response for WorkItemTrackingApi.getWorkItem/);
+	});
+});
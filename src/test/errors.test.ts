@@ -0,0 +1,44 @@
+import * as assert from 'assert';
+import { classifyError, getRejectedFields } from '../errors';
+import { RequestCancelledError } from '../retry';
+
+const httpError = (statusCode: number, message: string) => Object.assign(new Error(message), { statusCode });
+
+suite('Errors Test Suite', () => {
+	test('Recognizes sign-in and permission problems', () => {
+		const expired = classifyError(httpError(401, 'The Personal Access Token used has expired.'));
+		assert.strictEqual(expired.kind, 'authentication');
+		assert.match(expired.message, /expired/);
+		assert.deepStrictEqual(expired.actions, ['signIn']);
+		assert.match(classifyError(httpError(401, 'TF400813: The user is not authorized to access this resource. Insufficient scope.')).message, /scopes/);
+		assert.strictEqual(classifyError(httpError(401, 'Unauthorized')).kind, 'authentication');
+
+		const denied = classifyError(httpError(403, 'TF401019: You do not have permission to update this work item.'));
+		assert.strictEqual(denied.kind, 'permission');
+		assert.deepStrictEqual(denied.actions, ['openInBrowser']);
+	});
+
+	test('Names the fields a rule rejected', () => {
+		const rule = classifyError(httpError(400, 'TF401320: Rule Error for field Remaining Work. Error code: Required, InvalidEmpty.'));
+		assert.strictEqual(rule.kind, 'validation');
+		assert.deepStrictEqual(rule.fields, ['Remaining Work']);
+		assert.match(rule.message, /rejected the value of Remaining Work/);
+		assert.deepStrictEqual(
+			getRejectedFields("TF401326: Invalid field status 'InvalidListValue' for field 'System.State'. TF401326: Invalid field status 'InvalidEmpty' for field 'Microsoft.VSTS.Common.AcceptanceCriteria'."),
+			['State', 'Acceptance Criteria']
+		);
+	});
+
+	test('Tells deleted items, conflicts, throttling, outages and offline apart', () => {
+		assert.strictEqual(classifyError(httpError(404, 'TF401232: Work item 7 does not exist, or you do not have permissions to read it.')).kind, 'notFound');
+		assert.strictEqual(classifyError(httpError(412, 'TF26071: This work item has been changed by someone else since you opened it.')).kind, 'conflict');
+		assert.deepStrictEqual(classifyError(httpError(429, 'Too many requests')).actions, ['retry']);
+		assert.strictEqual(classifyError(httpError(503, 'Service Unavailable')).kind, 'server');
+		assert.strictEqual(classifyError(Object.assign(new Error('getaddrinfo ENOTFOUND dev.azure.com'), { code: 'ENOTFOUND' })).kind, 'offline');
+		assert.strictEqual(classifyError(new RequestCancelledError()).kind, 'cancelled');
+
+		const unknown = classifyError(new Error('Something odd'));
+		assert.strictEqual(unknown.kind, 'unknown');
+		assert.strictEqual(unknown.message, 'Something odd');
+	});
+});
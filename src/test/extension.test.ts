@@ -9,7 +9,10 @@ suite('Extension Test Suite', () => {
 	});
 
 	test('Should register commands', async () => {
+		await vscode.extensions.getExtension('MLLANN01.azure-devops-backlog-explorer')!.activate();
 		const commands = await vscode.commands.getCommands(true);
-		assert.ok(commands.includes('azureDevOpsBacklog.helloWorld'));
+		for (const command of ['adoBacklog.refresh', 'adoBacklog.openItem', 'adoBacklog.signIn', 'adoBacklog.createChild', 'adoBacklog.createEpic', 'adoBacklog.createFeature', 'adoBacklog.createUserStory', 'adoBacklog.createBug']) {
+			assert.ok(commands.includes(command), `${command} is not registered`);
+		}
 	});
 });
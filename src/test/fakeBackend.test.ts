@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { BacklogFixture, FakeBacklogBackend } from '../fakeBackend';
+import { BacklogTeam } from '../teams';
+
+const web: BacklogTeam = { key: 'web', name: 'Web', id: 'web', areas: [{ path: 'Demo\\Web', includeChildren: true }], defaultAreaPath: 'Demo\\Web' };
+
+// Epic 1 > Feature 2 > Story 3 > Tasks 4 and 5; Epic 6 belongs to another area
+const fixture: BacklogFixture = {
+	project: 'Demo',
+	teams: [web],
+	members: { web: [{ displayName: 'Jane Doe', uniqueName: 'jane@example.com', id: 'jane' }] },
+	states: { 'User Story': ['New', 'Active', 'Closed'], Task: ['To Do', 'Doing', 'Done'] },
+	workItems: [
+		{ id: 1, fields: { 'System.WorkItemType': 'Epic', 'System.Title': 'Checkout', 'System.AreaPath': 'Demo\\Web' } },
+		{ id: 2, fields: { 'System.WorkItemType': 'Feature', 'System.Title': 'Cart', 'System.AreaPath': 'Demo\\Web', 'System.Parent': 1 } },
+		{ id: 3, fields: { 'System.WorkItemType': 'User Story', 'System.Title': 'Add to cart', 'System.State': 'Active', 'System.AreaPath': 'Demo\\Web', 'System.Tags': 'UX', 'System.Parent': 2 } },
+		{ id: 4, fields: { 'System.WorkItemType': 'Task', 'System.Title': 'Button', 'System.AreaPath': 'Demo\\Web', 'Microsoft.VSTS.Scheduling.RemainingWork': 3, 'System.Parent': 3 } },
+		{ id: 5, fields: { 'System.WorkItemType': 'Task', 'System.Title': 'API', 'System.AreaPath': 'Demo\\Web', 'Microsoft.VSTS.Scheduling.RemainingWork': 2, 'System.Parent': 3 } },
+		{ id: 6, fields: { 'System.WorkItemType': 'Epic', 'System.Title': 'Mobile app', 'System.AreaPath': 'Demo\\Mobile' } }
+	]
+};
+
+const backend = () => new FakeBacklogBackend(fixture, () => new Date('2024-05-04T00:00:00Z'));
+
+suite('Fake Backend Test Suite', () => {
+	test('Builds a team tree and filters it', async () => {
+		const fake = backend();
+		const tree = await fake.getBacklogTree(web, ['Epic']);
+		assert.deepStrictEqual(tree.roots.map(i => i.id), [1]);
+		assert.deepStrictEqual(tree.getChildren(3).map(i => i.id), [5, 4]);
+
+		const filtered = await fake.getBacklogTree(web, ['Epic'], { tags: ['UX'] });
+		assert.deepStrictEqual(filtered.getChildren(2).map(i => i.id), [3]);
+		assert.deepStrictEqual((await fake.getRemainingWorkRollups([1, 3])).get(1), 5);
+	});
+
+	test('Saves revisions and rejects stale or invalid updates', async () => {
+		const fake = backend();
+		const changes: (number[] | undefined)[] = [];
+		fake.onDidChangeWorkItems(ids => changes.push(ids));
+
+		const saved = await fake.updateWorkItem(3, { 'System.Title': 'Add items to cart', 'System.AssignedTo': 'jane@example.com' }, 1);
+		assert.strictEqual(saved.rev, 2);
+		assert.strictEqual(saved.fields!['System.AssignedTo'].displayName, 'Jane Doe');
+		assert.deepStrictEqual(changes, [[3, 2, 1]]);
+
+		await assert.rejects(fake.updateWorkItem(3, { 'System.Title': 'Stale' }, 1), (e: any) => e.statusCode === 412);
+		await assert.rejects(fake.updateWorkItem(3, { 'System.State': 'Done' }), (e: any) => e.statusCode === 400);
+		assert.strictEqual((await fake.getWorkItem(3))!.fields!['System.Title'], 'Add items to cart');
+	});
+
+	test('Creates, links and deletes work items', async () => {
+		const fake = backend();
+		const task = await fake.createWorkItem('Task', { 'System.Title': 'Tests', 'System.AreaPath': 'Demo\\Web' }, 3);
+		assert.strictEqual(task.id, 7);
+		assert.strictEqual(task.fields!['System.State'], 'To Do');
+		assert.strictEqual((await fake.getRemainingWorkRollups([3])).get(3), 5);
+
+		await assert.rejects(fake.addParentLink(1, 3), /circular/);
+		await assert.rejects(fake.addParentLink(3, 6), /only one Parent/);
+		await fake.removeParentLink(3);
+		await fake.addParentLink(3, 6);
+		assert.deepStrictEqual((await fake.getBacklogTree(web, ['Epic'])).getChildren(2), []);
+
+		await fake.deleteWorkItem(3);
+		assert.strictEqual(await fake.getWorkItem(3), null);
+		assert.strictEqual((await fake.getWorkItem(4))!.fields!['System.Parent'], undefined);
+	});
+
+	test('Finds the items a team tree doesn\'t reach', async () => {
+		const fake = backend();
+		const unparented = () => fake.getUnparentedTree(web);
+		assert.deepStrictEqual((await unparented()).roots, []);
+
+		// Under an epic in another area, or without any parent
+		await fake.removeParentLink(3);
+		await fake.addParentLink(3, 6);
+		await fake.removeParentLink(2);
+		const tree = await unparented();
+		assert.deepStrictEqual(tree.roots.map(i => i.id), [3, 2]);
+		assert.deepStrictEqual(tree.getChildren(3).map(i => i.id), [5, 4]);
+
+		await fake.addParentLink(2, 1);
+		assert.deepStrictEqual((await unparented()).roots.map(i => i.id), [3]);
+
+		// A story under an unparented feature is shown beneath it only
+		await fake.removeParentLink(3);
+		await fake.addParentLink(3, 2);
+		await fake.removeParentLink(2);
+		const nested = await unparented();
+		assert.deepStrictEqual(nested.roots.map(i => i.id), [2]);
+		assert.deepStrictEqual(nested.getChildren(2).map(i => i.id), [3]);
+	});
+
+	test('Applies bulk edits item by item and reports each outcome', async () => {
+		const fake = backend();
+		const progress: number[] = [];
+		const results = await fake.updateWorkItems([
+			{ workItemId: 4, fields: { 'System.State': 'Doing' } },
+			{ workItemId: 5, fields: { 'System.State': 'Closed' } }
+		], done => progress.push(done));
+		assert.deepStrictEqual(results.map(r => [r.workItemId, r.error === undefined]), [[4, true], [5, false]]);
+		assert.deepStrictEqual(progress, [1, 2]);
+
+		const story = await fake.createWorkItem('User Story', { 'System.Title': 'Remove from cart', 'System.AreaPath': 'Demo\\Web' }, 2);
+		await fake.moveWorkItems([4, 5], story.id!);
+		assert.deepStrictEqual((await fake.getBacklogTree(web, ['Epic'])).getChildren(story.id!).map(i => i.id).sort(), [4, 5]);
+
+		const deleted = await fake.deleteWorkItems([4, 99]);
+		assert.deepStrictEqual(deleted.map(r => r.error === undefined), [true, false]);
+	});
+
+	test('Loads the demo backlog', async () => {
+		const fake = FakeBacklogBackend.fromFile(path.join(__dirname, '../../resources/demo-backlog.json'));
+		await fake.whenReady();
+		assert.ok(fake.isSignedIn());
+		const teams = await fake.getTeams();
+		const hierarchy = await fake.getHierarchy();
+		for (const team of teams) {
+			const tree = await fake.getBacklogTree(team, hierarchy.levels[0].workItemTypes);
+			assert.ok(tree.roots.length > 0, `${team.name} has no backlog`);
+		}
+	});
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { BacklogType, BugsBehavior } from 'azure-devops-node-api/interfaces/WorkInterfaces';
+import { getLevelIndex, parseBacklogConfiguration } from '../hierarchy';
+
+function scrumConfiguration(bugsBehavior: BugsBehavior) {
+	return {
+		bugsBehavior,
+		portfolioBacklogs: [
+			{ id: 'Microsoft.FeatureCategory', name: 'Features', rank: 2, type: BacklogType.Portfolio, workItemTypes: [{ name: 'Feature' }] },
+			{ id: 'Microsoft.EpicCategory', name: 'Epics', rank: 3, type: BacklogType.Portfolio, workItemTypes: [{ name: 'Epic' }] }
+		],
+		requirementBacklog: {
+			id: 'Microsoft.RequirementCategory', name: 'Backlog items', rank: 1, type: BacklogType.Requirement,
+			workItemTypes: [{ name: 'Product Backlog Item' }], defaultWorkItemType: { name: 'Product Backlog Item' }
+		},
+		taskBacklog: { id: 'Microsoft.TaskCategory', name: 'Tasks', rank: 0, type: BacklogType.Task, workItemTypes: [{ name: 'Task' }] },
+		backlogFields: { typeFields: { Effort: 'Microsoft.VSTS.Scheduling.Effort' } }
+	};
+}
+
+suite('Hierarchy Test Suite', () => {
+	test('Orders portfolio levels by rank above the requirement level', () => {
+		const hierarchy = parseBacklogConfiguration(scrumConfiguration(BugsBehavior.AsRequirements), ['Bug']);
+		assert.deepStrictEqual(hierarchy.levels.map(l => l.name), ['Epics', 'Features', 'Backlog items']);
+		assert.deepStrictEqual(hierarchy.levels[2].workItemTypes, ['Product Backlog Item', 'Bug']);
+		assert.strictEqual(hierarchy.fields.Effort, 'Microsoft.VSTS.Scheduling.Effort');
+		assert.strictEqual(getLevelIndex(hierarchy, 'Bug'), 2);
+	});
+
+	test('Places bugs according to the bugs behavior', () => {
+		const asTasks = parseBacklogConfiguration(scrumConfiguration(BugsBehavior.AsTasks), ['Bug']);
+		assert.strictEqual(getLevelIndex(asTasks, 'Bug'), 3);
+		assert.deepStrictEqual(asTasks.taskLevel?.workItemTypes, ['Task', 'Bug']);
+
+		const off = parseBacklogConfiguration(scrumConfiguration(BugsBehavior.Off), ['Bug']);
+		assert.strictEqual(getLevelIndex(off, 'Bug'), -1);
+		assert.deepStrictEqual(off.taskLevel?.workItemTypes, ['Task']);
+	});
+});
@@ -0,0 +1,15 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Mocha from 'mocha';
+
+/** Runs every compiled `*.test.js` suite in this folder inside the VS Code instance started by ./runTest. */
+export function run(): Promise<void> {
+	const mocha = new Mocha({ ui: 'tdd', color: true });
+	fs.readdirSync(__dirname)
+		.filter(file => file.endsWith('.test.js'))
+		.forEach(file => mocha.addFile(path.join(__dirname, file)));
+
+	return new Promise((resolve, reject) => {
+		mocha.run(failures => failures > 0 ? reject(new Error(`${failures} tests failed.`)) : resolve());
+	});
+}
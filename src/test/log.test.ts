@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import type { LogOutputChannel } from 'vscode';
+import { describeError, getActivityId, setLogOutput, withTracing } from '../log';
+
+// Collects lines by level in place of the output channel
+function captureLog() {
+	const lines: string[] = [];
+	const channel = ['trace', 'debug', 'info', 'warn', 'error'].reduce((c, level) => ({ ...c, [level]: (message: string) => lines.push(`${level}: ${message}`) }), {});
+	setLogOutput(channel as LogOutputChannel);
+	return lines;
+}
+
+const notFound = Object.assign(new Error('TF401232: Work item 7 does not exist'), {
+	statusCode: 404,
+	responseHeaders: { activityid: '5f0c1b2e-0000-4000-8000-000000000001' }
+});
+
+suite('Log Test Suite', () => {
+	teardown(() => setLogOutput(undefined));
+
+	test('Describes errors with their status and activity ID', () => {
+		assert.strictEqual(getActivityId(notFound), '5f0c1b2e-0000-4000-8000-000000000001');
+		assert.strictEqual(getActivityId({ responseHeaders: { 'x-vss-e2eid': ['abc'] } }), 'abc');
+		assert.strictEqual(describeError(notFound), 'TF401232: Work item 7 does not exist (HTTP 404, activity 5f0c1b2e-0000-4000-8000-000000000001)');
+		assert.strictEqual(describeError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })), 'socket hang up (ECONNRESET)');
+		assert.strictEqual(describeError('plain'), 'plain');
+	});
+
+	test('Traces API calls, WIQL queries and failures', async () => {
+		const lines = captureLog();
+		const witApi = {
+			queryByWiql: async (wiql: { query: string }) => ({ workItems: [{ id: 1 }, { id: 2 }] }),
+			getWorkItem: async (id: number) => { throw notFound; }
+		};
+		const connection = withTracing({ getWorkItemTrackingApi: async () => witApi });
+		const api = await connection.getWorkItemTrackingApi();
+
+		await api.queryByWiql({ query: `SELECT [System.Id]
+			FROM WorkItems` });
+		await assert.rejects(api.getWorkItem(7));
+
+		assert.match(lines[0], /^debug: WorkItemTrackingApi\.queryByWiql \d+ms$/);
+		assert.strictEqual(lines[1], 'debug: WIQL (2 rows): SELECT [System.Id] FROM WorkItems');
+		assert.match(lines[2], /^warn: WorkItemTrackingApi\.getWorkItem failed after \d+ms: .*activity 5f0c1b2e/);
+	});
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { describeFieldValue, fieldValuesEqual, getChangedFields, isRevisionConflict, mergeFields, resolveConflicts } from '../merge';
+
+suite('Merge Test Suite', () => {
+	test('Compares field values the way they are stored', () => {
+		assert.ok(fieldValuesEqual('System.AssignedTo', { displayName: 'Ada Lovelace', uniqueName: 'ada@contoso.com' }, 'Ada Lovelace'));
+		assert.ok(fieldValuesEqual('System.Tags', 'api; UI', 'ui;api'));
+		assert.ok(fieldValuesEqual('Microsoft.VSTS.Scheduling.StoryPoints', 3, '3'));
+		assert.ok(fieldValuesEqual('System.Description', undefined, ''));
+		assert.ok(!fieldValuesEqual('System.Title', 'Login', 'login'));
+		assert.ok(!fieldValuesEqual('System.Description', '', 'Text'));
+	});
+
+	test('Finds the fields edited since the form was loaded', () => {
+		const original = { 'System.Title': 'Login', 'System.Tags': 'a; b', 'System.State': 'New' };
+		const current = { 'System.Title': 'Sign in', 'System.Tags': 'b; a', 'System.State': 'New' };
+		assert.deepStrictEqual(getChangedFields(original, current), { 'System.Title': 'Sign in' });
+	});
+
+	test('Keeps non-overlapping edits and reports fields both sides changed', () => {
+		const original = { 'System.Title': 'Login', 'System.State': 'New', 'System.Tags': '' };
+		const mine = { 'System.Title': 'Sign in', 'System.State': 'Active', 'System.Tags': 'auth' };
+		const theirs = { 'System.Title': 'Login', 'System.State': 'Resolved', 'System.Tags': 'auth', 'System.IterationPath': 'Web\\Sprint 2' };
+
+		const { changes, conflicts } = mergeFields(original, mine, theirs);
+		// Tags were changed to the same value on both sides, so there is nothing to write
+		assert.deepStrictEqual(changes, { 'System.Title': 'Sign in' });
+		assert.deepStrictEqual(conflicts, [{ field: 'System.State', original: 'New', mine: 'Active', theirs: 'Resolved' }]);
+	});
+
+	test('Applies the version chosen for each conflict', () => {
+		const conflicts = [
+			{ field: 'System.State', original: 'New', mine: 'Active', theirs: 'Resolved' },
+			{ field: 'System.Title', original: 'Login', mine: 'Sign in', theirs: 'Log in' },
+			{ field: 'System.AssignedTo', original: { displayName: 'Ada Lovelace', uniqueName: 'ada@contoso.com' }, mine: 'Grace Hopper', theirs: 'Alan Turing' },
+			{ field: 'System.Description', original: undefined, mine: '<p>Mine</p>', theirs: '<p>Theirs</p>' }
+		];
+		const changes = resolveConflicts(conflicts, { 'System.Title': 'theirs', 'System.AssignedTo': 'original', 'System.Description': 'original' });
+		assert.deepStrictEqual(changes, { 'System.State': 'Active', 'System.AssignedTo': 'ada@contoso.com', 'System.Description': null });
+	});
+
+	test('Recognises rejected revision checks', () => {
+		assert.ok(isRevisionConflict({ statusCode: 412 }));
+		assert.ok(isRevisionConflict({ statusCode: 409 }));
+		assert.ok(isRevisionConflict({ statusCode: 400, message: 'TF26071: This work item has been changed by someone else since you opened it.' }));
+		assert.ok(!isRevisionConflict({ statusCode: 400, message: 'TF401320: Rule Error for field Title.' }));
+		assert.ok(!isRevisionConflict(new Error('socket hang up')));
+	});
+
+	test('Describes values as plain text', () => {
+		assert.strictEqual(describeFieldValue('<p>Fish &amp; chips</p><p>Peas</p>'), 'Fish & chips\nPeas');
+		assert.strictEqual(describeFieldValue({ displayName: 'Ada Lovelace' }), 'Ada Lovelace');
+		assert.strictEqual(describeFieldValue(undefined), '');
+		assert.strictEqual(describeFieldValue(5), '5');
+	});
+});
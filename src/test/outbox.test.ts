@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { BacklogTree } from '../backlogTree';
+import { Outbox, PendingEdit, withPendingEdits } from '../outbox';
+
+const offline = () => Object.assign(new Error('getaddrinfo ENOTFOUND dev.azure.com'), { code: 'ENOTFOUND' });
+const conflict = () => Object.assign(new Error('TF26071: This work item has been changed by someone else since you opened it.'), { statusCode: 412 });
+
+function item(id: number, type: string, fields: Record<string, any> = {}): WorkItem {
+	return { id, rev: 1, fields: { 'System.Title': `Item ${id}`, 'System.WorkItemType': type, ...fields } };
+}
+
+suite('Outbox Test Suite', () => {
+	let dir: string;
+	let file: string;
+
+	setup(async () => {
+		dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ado-outbox-'));
+		file = path.join(dir, 'outbox', 'project.json');
+	});
+
+	teardown(async () => {
+		await fs.promises.rm(dir, { recursive: true, force: true });
+	});
+
+	test('Keeps queued edits across restarts and checks only the first against its revision', async () => {
+		const outbox = new Outbox(file);
+		await outbox.add({ kind: 'update', workItemId: 1, fields: { 'System.State': 'Active' }, expectedRev: 4 });
+		await outbox.add({ kind: 'update', workItemId: 1, fields: { 'System.Title': 'Renamed' }, expectedRev: 4 });
+		await outbox.add({ kind: 'addParent', workItemId: 2, parentId: 1 });
+
+		const reloaded = new Outbox(file);
+		await reloaded.load();
+		assert.deepStrictEqual(reloaded.getEdits(), [
+			{ kind: 'update', workItemId: 1, fields: { 'System.State': 'Active' }, expectedRev: 4 },
+			{ kind: 'update', workItemId: 1, fields: { 'System.Title': 'Renamed' } },
+			{ kind: 'addParent', workItemId: 2, parentId: 1 }
+		]);
+		assert.deepStrictEqual(reloaded.getPendingIds(), [1, 2]);
+
+		await reloaded.discard(1);
+		await reloaded.discard(2);
+		assert.ok(!fs.existsSync(file));
+	});
+
+	test('Sends in order, records rejected edits per item and stops while still offline', async () => {
+		const outbox = new Outbox(file);
+		await outbox.add({ kind: 'update', workItemId: 1, fields: { 'System.State': 'Active' }, expectedRev: 4 });
+		await outbox.add({ kind: 'update', workItemId: 2, fields: { 'System.State': 'Closed' } });
+		await outbox.add({ kind: 'update', workItemId: 1, fields: { 'System.Title': 'Renamed' } });
+		await outbox.add({ kind: 'removeParent', workItemId: 3 });
+
+		let reachable = false;
+		const sent: PendingEdit[] = [];
+		const send = async (edit: PendingEdit) => {
+			if (!reachable) throw offline();
+			if (edit.workItemId === 1) throw conflict();
+			sent.push(edit);
+		};
+
+		const stopped = await outbox.flush(send);
+		assert.strictEqual(stopped.sent, 0);
+		assert.ok(stopped.stoppedBy);
+		assert.strictEqual(outbox.getEdits().length, 4);
+
+		reachable = true;
+		const result = await outbox.flush(send);
+		assert.deepStrictEqual(sent.map(edit => `${edit.kind} #${edit.workItemId}`), ['update #2', 'removeParent #3']);
+		assert.strictEqual(result.sent, 2);
+		assert.deepStrictEqual(outbox.getEdits(), []);
+		// The rename built on the rejected edit, so it isn't sent either
+		assert.strictEqual(result.conflicts.length, 1);
+		assert.strictEqual(result.conflicts[0].workItemId, 1);
+		assert.match(result.conflicts[0].message, /Someone else changed/);
+		assert.strictEqual(result.conflicts[0].edits.length, 2);
+
+		const reloaded = new Outbox(file);
+		await reloaded.load();
+		assert.deepStrictEqual(reloaded.getConflicts().map(c => c.workItemId), [1]);
+	});
+
+	test('Shows queued edits and moves on a loaded tree', () => {
+		const children = new Map<number, WorkItem[]>([
+			[1, [item(3, 'Feature', { 'System.AreaPath': 'Project' })]],
+			[2, []]
+		]);
+		const tree = new BacklogTree(
+			[item(1, 'Epic', { 'System.AreaPath': 'Project' }), item(2, 'Epic', { 'System.AreaPath': 'Project' })],
+			id => children.get(id) || []
+		);
+		const isRoot = (workItem: WorkItem) => workItem.fields?.['System.WorkItemType'] === 'Epic' && workItem.fields?.['System.AreaPath'] === 'Project';
+
+		const shown = withPendingEdits(tree, [
+			{ kind: 'update', workItemId: 3, fields: { 'System.State': 'Active' } },
+			{ kind: 'removeParent', workItemId: 3 },
+			{ kind: 'addParent', workItemId: 3, parentId: 2 },
+			{ kind: 'update', workItemId: 1, fields: { 'System.AreaPath': 'Other' } }
+		], isRoot);
+
+		assert.deepStrictEqual(shown.roots.map(i => i.id), [2]);
+		assert.deepStrictEqual(shown.getChildren(1), []);
+		assert.deepStrictEqual(shown.getChildren(2).map(i => [i.id, i.fields!['System.State']]), [[3, 'Active']]);
+		// The loaded tree itself is left alone
+		assert.strictEqual(tree.getChildren(1)[0].fields!['System.State'], undefined);
+	});
+});
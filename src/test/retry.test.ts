@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import type { CancellationToken } from 'vscode';
+import { RequestCancelledError, RetryInfo, getRequestKind, getRetryDelay, isRetryable, withRetries, withRetry } from '../retry';
+
+function httpError(statusCode: number, headers: Record<string, string> = {}): Error {
+	return Object.assign(new Error(`Failed request: (${statusCode})`), { statusCode, responseHeaders: headers });
+}
+
+/** A cancellation token that can be cancelled from the test. */
+function cancellable(): { token: CancellationToken; cancel: () => void } {
+	const listeners: (() => void)[] = [];
+	const token = {
+		isCancellationRequested: false,
+		onCancellationRequested: (listener: () => void) => {
+			listeners.push(listener);
+			return { dispose: () => listeners.splice(listeners.indexOf(listener), 1) };
+		}
+	} as unknown as CancellationToken;
+	return {
+		token,
+		cancel: () => {
+			(token as any).isCancellationRequested = true;
+			[...listeners].forEach(listener => listener());
+		}
+	};
+}
+
+suite('Retry Test Suite', () => {
+	test('Retries throttled writes but only transient failures of reads', () => {
+		assert.ok(isRetryable(httpError(429), 'write'));
+		assert.ok(isRetryable(httpError(503), 'read'));
+		assert.ok(!isRetryable(httpError(503), 'write'));
+		assert.ok(isRetryable(Object.assign(new Error('reset'), { code: 'ECONNRESET' }), 'read'));
+		assert.ok(!isRetryable(httpError(400), 'read'));
+		assert.ok(!isRetryable(httpError(401), 'read'));
+	});
+
+	test('Honours Retry-After and X-RateLimit-Reset before falling back to backoff', () => {
+		const now = Date.parse('2024-05-01T10:00:00Z');
+		assert.strictEqual(getRetryDelay(httpError(429, { 'retry-after': '7' }), 1, {}, now), 7000);
+		assert.strictEqual(getRetryDelay(httpError(429, { 'retry-after': 'Wed, 01 May 2024 10:00:03 GMT' }), 1, {}, now), 3000);
+		assert.strictEqual(getRetryDelay(httpError(429, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(now / 1000 + 20) }), 1, {}, now), 20000);
+		assert.strictEqual(getRetryDelay(httpError(429, { 'retry-after': '600' }), 1, { maxDelayMs: 60000 }, now), 60000);
+
+		// Backoff doubles per attempt, with jitter in the upper half
+		assert.strictEqual(getRetryDelay(httpError(503), 3, { baseDelayMs: 100 }, now, () => 0), 200);
+		assert.strictEqual(getRetryDelay(httpError(503), 3, { baseDelayMs: 100 }, now, () => 1), 400);
+	});
+
+	test('Retries until the call succeeds', async () => {
+		const retries: RetryInfo[] = [];
+		let calls = 0;
+		const result = await withRetry('read', async () => {
+			if (++calls < 3) throw httpError(calls === 1 ? 429 : 503, { 'x-ratelimit-resource': 'Core' });
+			return 'ok';
+		}, { baseDelayMs: 1, onRetry: retry => retries.push(retry) });
+		assert.strictEqual(result, 'ok');
+		assert.deepStrictEqual(retries.map(r => [r.attempt, r.throttled, r.resource]), [[1, true, 'Core'], [2, false, 'Core']]);
+	});
+
+	test('Gives up after the last attempt and on non-retryable errors', async () => {
+		let calls = 0;
+		await assert.rejects(withRetry('read', async () => { calls++; throw httpError(503); }, { baseDelayMs: 1, maxAttempts: 3 }), /503/);
+		assert.strictEqual(calls, 3);
+
+		calls = 0;
+		await assert.rejects(withRetry('write', async () => { calls++; throw httpError(503); }, { baseDelayMs: 1 }), /503/);
+		assert.strictEqual(calls, 1);
+	});
+
+	test('Stops waiting as soon as the token is cancelled', async () => {
+		const { token, cancel } = cancellable();
+		let calls = 0;
+		const pending = withRetry('read', async () => { calls++; throw httpError(429, { 'retry-after': '30' }); }, { token });
+		setTimeout(cancel, 5);
+		await assert.rejects(pending, RequestCancelledError);
+		assert.strictEqual(calls, 1);
+
+		await assert.rejects(withRetry('read', async () => 'never', { token }), RequestCancelledError);
+	});
+
+	test('Wraps every method of an API client and the clients it hands out', async () => {
+		assert.strictEqual(getRequestKind('queryByWiql'), 'read');
+		assert.strictEqual(getRequestKind('updateWorkItem'), 'write');
+
+		let calls = 0;
+		const witApi = {
+			async getWorkItem(id: number) {
+				if (++calls === 1) throw httpError(502);
+				return { id };
+			}
+		};
+		const connection = withRetries({ async getWorkItemTrackingApi() { return witApi; } }, { baseDelayMs: 1 });
+		const api = await connection.getWorkItemTrackingApi();
+		assert.deepStrictEqual(await api.getWorkItem(7), { id: 7 });
+		assert.strictEqual(calls, 2);
+	});
+});
@@ -0,0 +1,19 @@
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+async function main() {
+	try {
+		// The folder containing the extension's package.json
+		const extensionDevelopmentPath = path.resolve(__dirname, '../../');
+		// The module VS Code loads to run the suites, see ./index
+		const extensionTestsPath = path.resolve(__dirname, './index');
+
+		// Downloads VS Code, unzips it and runs the suites inside it, without the user's other extensions
+		await runTests({ extensionDevelopmentPath, extensionTestsPath, launchArgs: ['--disable-extensions'] });
+	} catch (err) {
+		console.error('Failed to run tests', err);
+		process.exit(1);
+	}
+}
+
+main();
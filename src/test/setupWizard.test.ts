@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { flattenClassificationNodes, guessServerType } from '../setupWizard';
+
+suite('Setup Wizard Test Suite', () => {
+	test('Recognizes Azure DevOps Services URLs', () => {
+		assert.strictEqual(guessServerType('https://dev.azure.com/contoso'), 'cloud');
+		assert.strictEqual(guessServerType('https://contoso.visualstudio.com'), 'cloud');
+		assert.strictEqual(guessServerType('https://tfs.corp/tfs/DefaultCollection'), 'server');
+	});
+
+	test('Flattens classification nodes into WIQL paths', () => {
+		const paths = flattenClassificationNodes({
+			name: 'Web',
+			children: [
+				{ name: 'Frontend', children: [{ name: 'Design' }] },
+				{ name: 'Backend' }
+			]
+		}).map(n => [n.path, n.depth]);
+		assert.deepStrictEqual(paths, [
+			['Web', 0],
+			['Web\\Frontend', 1],
+			['Web\\Frontend\\Design', 2],
+			['Web\\Backend', 1]
+		]);
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { BacklogTeam, getManualTeams, isInTeamScope, selectTeams } from '../teams';
+
+function team(name: string): BacklogTeam {
+	return { key: name, name, id: name, areas: [{ path: `Web\\${name}`, includeChildren: false }], defaultAreaPath: `Web\\${name}` };
+}
+
+suite('Teams Test Suite', () => {
+	test('Manual area paths become roots that include sub-areas', () => {
+		const [root] = getManualTeams(['Web\\Frontend']);
+		assert.strictEqual(root.name, 'Frontend');
+		assert.strictEqual(root.id, undefined);
+		assert.deepStrictEqual(root.areas, [{ path: 'Web\\Frontend', includeChildren: true }]);
+	});
+
+	test('Selects configured teams in the configured order', () => {
+		const teams = [team('Alpha'), team('Beta'), team('Gamma')];
+		assert.deepStrictEqual(selectTeams(teams, ['gamma', 'Alpha', 'Missing']).map(t => t.name), ['Gamma', 'Alpha']);
+		assert.strictEqual(selectTeams(teams, []).length, 3);
+	});
+
+	test('Matches area paths against a team scope', () => {
+		const [manual] = getManualTeams(['Web\\Frontend']);
+		assert.ok(isInTeamScope(manual, 'web\\frontend\\Checkout'));
+		assert.ok(!isInTeamScope(manual, 'Web\\FrontendLegacy'));
+		assert.ok(isInTeamScope(team('Beta'), 'Web\\Beta'));
+		assert.ok(!isInTeamScope(team('Beta'), 'Web\\Beta\\Sub'));
+	});
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { formatBreadcrumb, groupWorkItems, sortWorkItems } from '../treeLayout';
+
+const POINTS = 'Microsoft.VSTS.Scheduling.StoryPoints';
+
+function item(id: number, fields: Record<string, any> = {}): WorkItem {
+	return { id, fields: { 'System.Title': `Item ${id}`, ...fields } };
+}
+
+// Listed in backlog order
+const items = [
+	item(3, { 'System.State': 'New', 'System.ChangedDate': '2026-03-01T00:00:00Z', [POINTS]: 3, 'System.Tags': 'UX; Backend' }),
+	item(1, { 'System.State': 'Active', 'System.AssignedTo': { displayName: 'Zoe' }, 'System.ChangedDate': '2026-05-01T00:00:00Z', 'System.IterationPath': 'Web\\Sprint 10' }),
+	item(2, { 'System.State': 'New', 'System.AssignedTo': { displayName: 'Adam' }, [POINTS]: 8, 'System.IterationPath': 'Web\\Sprint 2', 'System.Tags': 'ux' })
+];
+
+suite('Tree Layout Test Suite', () => {
+	test('Sorts a level, keeping backlog order for ties', () => {
+		const ids = (mode: Parameters<typeof sortWorkItems>[1]) => sortWorkItems(items, mode, POINTS).map(i => i.id);
+		assert.deepStrictEqual(ids('priority'), [3, 1, 2]);
+		assert.deepStrictEqual(ids('id'), [1, 2, 3]);
+		assert.deepStrictEqual(ids('changedDate'), [1, 3, 2]);
+		assert.deepStrictEqual(ids('state'), [1, 3, 2]);
+		assert.deepStrictEqual(ids('assignee'), [2, 1, 3]);
+		assert.deepStrictEqual(ids('effort'), [2, 3, 1]);
+	});
+
+	test('Groups by value with items lacking one last', () => {
+		const summary = (mode: Parameters<typeof groupWorkItems>[1]) =>
+			groupWorkItems(items, mode).map(g => `${g.label}: ${g.items.map(i => i.id).join(',')}`);
+		assert.deepStrictEqual(summary('state'), ['Active: 1', 'New: 3,2']);
+		assert.deepStrictEqual(summary('assignee'), ['Adam: 2', 'Zoe: 1', 'Unassigned: 3']);
+		assert.deepStrictEqual(summary('iteration'), ['Sprint 2: 2', 'Sprint 10: 1', 'No Iteration: 3']);
+		assert.deepStrictEqual(summary('tag'), ['Backend: 3', 'UX: 3,2', 'No Tags: 1']);
+		assert.strictEqual(groupWorkItems(items, 'iteration')[0].description, 'Web\\Sprint 2');
+	});
+
+	test('Shortens the breadcrumb of a list row', () => {
+		assert.strictEqual(
+			formatBreadcrumb([item(1, { 'System.Title': 'Checkout' }), item(2, { 'System.Title': 'Card payments with saved cards and wallets' })]),
+			'Checkout › Card payments with save…'
+		);
+		assert.strictEqual(formatBreadcrumb([]), '');
+	});
+});
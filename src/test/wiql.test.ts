@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { WiqlSyntaxError, parseWiql, runWiql } from '../wiql';
+
+function item(id: number, fields: Record<string, any>): WorkItem {
+	return { id, fields: { 'System.TeamProject': 'Web', ...fields } };
+}
+
+const items = [
+	item(1, { 'System.WorkItemType': 'Epic', 'System.Title': 'Checkout', 'System.AreaPath': 'Web\\Shop', 'System.ChangedDate': '2024-05-01T10:00:00Z' }),
+	item(2, { 'System.WorkItemType': 'Feature', 'System.Title': 'Cart', 'System.AreaPath': 'Web\\Shop\\Cart', 'System.Tags': 'UX; Q3', 'System.ChangedDate': '2024-05-03T10:00:00Z' }),
+	item(3, { 'System.WorkItemType': 'User Story', 'System.Title': 'Add to cart', 'System.AreaPath': 'Web\\Shop', 'System.AssignedTo': { displayName: 'Jane Doe', uniqueName: 'jane@contoso.com' } }),
+	item(4, { 'System.WorkItemType': 'Epic', 'System.Title': 'Accounts', 'System.AreaPath': 'Web\\Accounts', 'Microsoft.VSTS.Scheduling.StoryPoints': 8 })
+];
+
+const ids = (query: string) => runWiql(query, items, { project: 'Web', me: 'jane@contoso.com', today: new Date('2024-05-04T00:00:00Z') }).map(i => i.id);
+
+suite('WIQL Test Suite', () => {
+	test('Parses the queries the extension writes', () => {
+		const query = parseWiql(`SELECT [System.Id] FROM WorkItems
+			WHERE [System.TeamProject] = @project AND ([System.AreaPath] UNDER 'Web\\Shop' OR [System.AreaPath] = 'Web')
+			ORDER BY [System.Id] DESC`);
+		assert.deepStrictEqual(query.fields, ['System.Id']);
+		assert.deepStrictEqual(query.orderBy, [{ field: 'System.Id', descending: true }]);
+		assert.strictEqual(query.where?.kind, 'and');
+	});
+
+	test('Filters with comparisons, IN, UNDER and CONTAINS', () => {
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [System.WorkItemType] IN ('Epic', 'Feature') AND [System.AreaPath] UNDER 'web\\shop'`), [1, 2]);
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [System.AreaPath] NOT UNDER 'Web\\Shop'`), [4]);
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [System.Tags] CONTAINS 'ux'`), [2]);
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [System.Id] > 1 AND NOT [System.Title] = 'Cart'`), [3, 4]);
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [Microsoft.VSTS.Scheduling.StoryPoints] >= 5`), [4]);
+	});
+
+	test('Resolves macros and compares identities by name', () => {
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [System.AssignedTo] = @me`), [3]);
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [System.AssignedTo] = 'Jane Doe' AND [System.TeamProject] = @project`), [3]);
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [System.ChangedDate] >= @today - 2`), [2]);
+	});
+
+	test('Orders results', () => {
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems WHERE [System.WorkItemType] = 'Epic' ORDER BY [System.Title]`), [4, 1]);
+		assert.deepStrictEqual(ids(`SELECT [System.Id] FROM WorkItems ORDER BY [System.Id] DESC`), [4, 3, 2, 1]);
+	});
+
+	test('Rejects what it does not support', () => {
+		assert.throws(() => parseWiql(`SELECT [System.Id] FROM WorkItemLinks WHERE [Source].[System.Id] = 1`), WiqlSyntaxError);
+		assert.throws(() => parseWiql(`SELECT [System.Id] FROM WorkItems WHERE [System.Title] LIKE 'x'`), WiqlSyntaxError);
+		assert.throws(() => parseWiql(`SELECT [System.Id] FROM WorkItems WHERE ([System.Id] = 1`), WiqlSyntaxError);
+		assert.throws(() => runWiql(`SELECT [System.Id] FROM WorkItems WHERE [System.CreatedBy] = @currentIteration`, items), WiqlSyntaxError);
+	});
+});
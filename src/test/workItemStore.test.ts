@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { WorkItemStore } from '../workItemStore';
+
+const FIELDS = ['System.Title', 'System.Parent', 'System.ChangedDate'];
+
+function item(id: number, rev: number, changedDate: string, fields: Record<string, any> = {}): WorkItem {
+	return { id, rev, fields: { 'System.Title': `Item ${id}`, 'System.ChangedDate': changedDate, ...fields } };
+}
+
+suite('Work Item Store Test Suite', () => {
+	let dir: string;
+	let store: WorkItemStore;
+
+	setup(async () => {
+		dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ado-store-'));
+		store = new WorkItemStore(path.join(dir, 'cache', 'project.json'));
+	});
+
+	teardown(async () => {
+		await store.delete();
+		await fs.promises.rm(dir, { recursive: true, force: true });
+	});
+
+	test('Applies deletions, edits and reparenting from a sync', () => {
+		store.applySync([1, 2, 3], [
+			item(1, 1, '2024-05-01T10:00:00Z'),
+			item(2, 1, '2024-05-01T11:00:00Z', { 'System.Parent': 1 }),
+			item(3, 1, '2024-05-01T12:00:00Z', { 'System.Parent': 1 })
+		], FIELDS);
+		assert.ok(store.isComplete());
+		assert.strictEqual(store.watermark, '2024-05-01T12:00:00.000Z');
+		assert.deepStrictEqual(store.getChildren(1).map(i => i.id), [2, 3]);
+
+		// 2 was deleted and 3 moved under a new parent
+		const modified = store.applySync([1, 3, 4], [
+			item(3, 2, '2024-05-02T09:00:00Z', { 'System.Parent': 4 }),
+			item(4, 1, '2024-05-02T08:00:00Z')
+		], FIELDS);
+		assert.ok(modified);
+		assert.strictEqual(store.has(2), false);
+		assert.deepStrictEqual(store.getChildren(1), []);
+		assert.deepStrictEqual(store.getChildren(4).map(i => i.id), [3]);
+		assert.strictEqual(store.watermark, '2024-05-02T09:00:00.000Z');
+
+		assert.strictEqual(store.applySync([1, 3, 4], [item(4, 1, '2024-05-02T08:00:00Z')], FIELDS), false);
+	});
+
+	test('Saves and reloads a snapshot', async () => {
+		store.applySync([1], [item(1, 3, '2024-05-01T10:00:00Z')], FIELDS);
+		store.setMeta('hierarchy', { levels: [] });
+		await store.save();
+
+		const reloaded = new WorkItemStore(path.join(dir, 'cache', 'project.json'));
+		assert.ok(await reloaded.load());
+		assert.ok(reloaded.isComplete());
+		assert.ok(reloaded.hasFields(FIELDS));
+		assert.strictEqual(reloaded.get(1)?.rev, 3);
+		assert.strictEqual(reloaded.watermark, '2024-05-01T10:00:00.000Z');
+		assert.deepStrictEqual(reloaded.getMeta('hierarchy'), { levels: [] });
+
+		assert.strictEqual(await new WorkItemStore(path.join(dir, 'missing.json')).load(), false);
+	});
+});
@@ -0,0 +1,138 @@
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { parseTags } from './bulkEdit';
+
+/** What each tree level is sorted by; `priority` keeps the backlog order. */
+export type SortMode = 'priority' | 'id' | 'changedDate' | 'state' | 'assignee' | 'effort';
+
+/** What a team's top-level items, or its rows in the list view, are grouped by, in nodes between the team and the items. */
+export type GroupMode = 'none' | 'state' | 'assignee' | 'iteration' | 'tag';
+
+/** The hierarchy, or every work item of a team in one flat list. */
+export type ViewMode = 'tree' | 'list';
+
+export interface TreeLayout {
+    view: ViewMode;
+    sortBy: SortMode;
+    groupBy: GroupMode;
+}
+
+export const DEFAULT_LAYOUT: TreeLayout = { view: 'tree', sortBy: 'priority', groupBy: 'none' };
+
+export const SORT_MODES: { mode: SortMode; label: string; detail: string }[] = [
+    { mode: 'priority', label: 'Priority', detail: 'Backlog order, as ranked on the Azure DevOps backlog' },
+    { mode: 'id', label: 'ID', detail: 'Oldest work items first' },
+    { mode: 'changedDate', label: 'Changed Date', detail: 'Most recently changed first' },
+    { mode: 'state', label: 'State', detail: 'Alphabetically by state' },
+    { mode: 'assignee', label: 'Assigned To', detail: 'Alphabetically by assignee, unassigned last' },
+    { mode: 'effort', label: 'Story Points', detail: 'Largest estimate first, unestimated last' }
+];
+
+export const GROUP_MODES: { mode: GroupMode; label: string; icon: string }[] = [
+    { mode: 'none', label: 'None', icon: '' },
+    { mode: 'state', label: 'State', icon: 'circle-large-outline' },
+    { mode: 'assignee', label: 'Assigned To', icon: 'person' },
+    { mode: 'iteration', label: 'Iteration', icon: 'calendar' },
+    { mode: 'tag', label: 'Tag', icon: 'tag' }
+];
+
+/** Items of a team sharing a state, assignee, iteration or tag. */
+export interface WorkItemGroup {
+    key: string;
+    label: string;
+    /** Extra detail for the node, e.g. the full iteration path. */
+    description?: string;
+    items: WorkItem[];
+}
+
+const BREADCRUMB_TITLE_LENGTH = 24;
+
+/** A flat list row's ancestors from the top down with long titles cut short, e.g. "Checkout › Card payments". */
+export function formatBreadcrumb(ancestors: WorkItem[]): string {
+    return ancestors.map(ancestor => {
+        const title = String(ancestor.fields?.['System.Title'] || `#${ancestor.id}`);
+        return title.length > BREADCRUMB_TITLE_LENGTH ? `${title.slice(0, BREADCRUMB_TITLE_LENGTH - 1)}…` : title;
+    }).join(' › ');
+}
+
+// Sorts after every real value, so items without one end up last
+const NONE = '';
+
+function getAssignee(item: WorkItem): string {
+    const assignedTo = item.fields?.['System.AssignedTo'];
+    return typeof assignedTo === 'object' && assignedTo ? assignedTo.displayName || assignedTo.uniqueName || NONE : String(assignedTo || NONE);
+}
+
+const compareText = (a: string, b: string) => a === b ? 0 : a === NONE ? 1 : b === NONE ? -1 : a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Items of one level in the chosen order. `effortField` names the process's estimate field,
+ * e.g. Story Points. Sorting is stable, so ties keep the backlog order the items came in.
+ */
+export function sortWorkItems(items: WorkItem[], mode: SortMode, effortField: string): WorkItem[] {
+    const field = (item: WorkItem, name: string) => item.fields?.[name];
+    const number = (value: any) => value === null || value === undefined || value === '' ? undefined : Number(value);
+    const descending = (a: number | undefined, b: number | undefined) =>
+        a === b ? 0 : a === undefined ? 1 : b === undefined ? -1 : b - a;
+    switch (mode) {
+        case 'priority':
+            return items;
+        case 'id':
+            return [...items].sort((a, b) => a.id! - b.id!);
+        case 'changedDate':
+            return [...items].sort((a, b) => descending(Date.parse(field(a, 'System.ChangedDate')) || undefined, Date.parse(field(b, 'System.ChangedDate')) || undefined));
+        case 'state':
+            return [...items].sort((a, b) => compareText(String(field(a, 'System.State') || NONE), String(field(b, 'System.State') || NONE)));
+        case 'assignee':
+            return [...items].sort((a, b) => compareText(getAssignee(a), getAssignee(b)));
+        case 'effort':
+            return [...items].sort((a, b) => descending(number(field(a, effortField)), number(field(b, effortField))));
+    }
+}
+
+/** Keys of the groups an item belongs to; with tags, one per tag. */
+function getGroupKeys(item: WorkItem, mode: GroupMode): string[] {
+    switch (mode) {
+        case 'none':
+            return [];
+        case 'state':
+            return [String(item.fields?.['System.State'] || NONE)];
+        case 'assignee':
+            return [getAssignee(item)];
+        case 'iteration':
+            return [String(item.fields?.['System.IterationPath'] || NONE)];
+        case 'tag': {
+            const tags = parseTags(item.fields?.['System.Tags']);
+            return tags.length > 0 ? tags : [NONE];
+        }
+    }
+}
+
+const NO_VALUE_LABELS: Record<GroupMode, string> = {
+    none: '',
+    state: 'No State',
+    assignee: 'Unassigned',
+    iteration: 'No Iteration',
+    tag: 'No Tags'
+};
+
+/**
+ * Groups items by state, assignee, iteration or tag, in alphabetical order with the group of
+ * items lacking a value last. Items keep their order within a group. Tags match case-insensitively.
+ */
+export function groupWorkItems(items: WorkItem[], mode: GroupMode): WorkItemGroup[] {
+    const groups = new Map<string, WorkItemGroup>();
+    for (const item of items) {
+        for (const value of getGroupKeys(item, mode)) {
+            const key = mode === 'tag' ? value.toLowerCase() : value;
+            let group = groups.get(key);
+            if (!group) {
+                // Iterations are long paths; the node shows the last part and the path beside it
+                const label = value === NONE ? NO_VALUE_LABELS[mode] : mode === 'iteration' ? value.split('\\').pop()! : value;
+                group = { key, label, description: mode === 'iteration' && value !== NONE ? value : undefined, items: [] };
+                groups.set(key, group);
+            }
+            group.items.push(item);
+        }
+    }
+    return [...groups.values()].sort((a, b) => compareText(a.key, b.key));
+}
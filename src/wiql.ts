@@ -0,0 +1,286 @@
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+
+/**
+ * The subset of WIQL the extension itself writes: flat `WorkItems` queries with `AND`, `OR`,
+ * `NOT`, comparisons, `IN`, `UNDER` and `CONTAINS`, the `@project`, `@me` and `@today`
+ * macros, and `ORDER BY`. Link queries are not supported.
+ */
+
+export class WiqlSyntaxError extends Error {
+    constructor(message: string) {
+        super(`WIQL: ${message}`);
+        this.name = 'WiqlSyntaxError';
+    }
+}
+
+export type WiqlValue = string | number | { macro: string };
+
+export type WiqlOperator = '=' | '<>' | '<' | '>' | '<=' | '>=' | 'in' | 'under' | 'contains';
+
+export type WiqlExpression =
+    | { kind: 'and' | 'or'; left: WiqlExpression; right: WiqlExpression }
+    | { kind: 'not'; operand: WiqlExpression }
+    | { kind: 'compare'; field: string; operator: WiqlOperator; value: WiqlValue | WiqlValue[] };
+
+export interface WiqlQuery {
+    fields: string[];
+    where?: WiqlExpression;
+    orderBy: { field: string; descending: boolean }[];
+}
+
+/** Values the macros stand for. */
+export interface WiqlContext {
+    project?: string;
+    /** Display name or account name of the signed-in user. */
+    me?: string;
+    today?: Date;
+}
+
+type Token = { type: 'field' | 'string' | 'number' | 'macro' | 'word' | 'symbol'; value: string };
+
+function tokenize(query: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /\s+|\[([^\]]+)\]|'((?:[^']|'')*)'|(-?\d+(?:\.\d+)?)(?![\w.])|@(\w+)|(<>|<=|>=|[=<>(),*-])|([A-Za-z_][\w.]*)/y;
+    let match: RegExpExecArray | null;
+    while (pattern.lastIndex < query.length) {
+        const start = pattern.lastIndex;
+        if (!(match = pattern.exec(query))) {
+            throw new WiqlSyntaxError(`unexpected "${query.slice(start, start + 10)}"`);
+        }
+        if (match[1] !== undefined) tokens.push({ type: 'field', value: match[1] });
+        else if (match[2] !== undefined) tokens.push({ type: 'string', value: match[2].replace(/''/g, "'") });
+        else if (match[3] !== undefined) tokens.push({ type: 'number', value: match[3] });
+        else if (match[4] !== undefined) tokens.push({ type: 'macro', value: match[4].toLowerCase() });
+        else if (match[5] !== undefined) tokens.push({ type: 'symbol', value: match[5] });
+        else if (match[6] !== undefined) tokens.push({ type: 'word', value: match[6] });
+    }
+    return tokens;
+}
+
+class Parser {
+    private position = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    parseQuery(): WiqlQuery {
+        this.expectWord('SELECT');
+        const fields = [this.parseField()];
+        while (this.acceptSymbol(',')) fields.push(this.parseField());
+        this.expectWord('FROM');
+        const source = this.next();
+        if (source?.type !== 'word' || source.value.toLowerCase() !== 'workitems') {
+            throw new WiqlSyntaxError('only FROM WorkItems queries are supported');
+        }
+        const where = this.acceptWord('WHERE') ? this.parseOr() : undefined;
+        const orderBy: WiqlQuery['orderBy'] = [];
+        if (this.acceptWord('ORDER')) {
+            this.expectWord('BY');
+            do {
+                const field = this.parseField();
+                const descending = this.acceptWord('DESC');
+                if (!descending) this.acceptWord('ASC');
+                orderBy.push({ field, descending });
+            } while (this.acceptSymbol(','));
+        }
+        if (this.position < this.tokens.length) {
+            throw new WiqlSyntaxError(`unexpected "${this.tokens[this.position].value}"`);
+        }
+        return { fields, where, orderBy };
+    }
+
+    private parseOr(): WiqlExpression {
+        let left = this.parseAnd();
+        while (this.acceptWord('OR')) left = { kind: 'or', left, right: this.parseAnd() };
+        return left;
+    }
+
+    private parseAnd(): WiqlExpression {
+        let left = this.parseUnary();
+        while (this.acceptWord('AND')) left = { kind: 'and', left, right: this.parseUnary() };
+        return left;
+    }
+
+    private parseUnary(): WiqlExpression {
+        if (this.acceptWord('NOT')) return { kind: 'not', operand: this.parseUnary() };
+        if (this.acceptSymbol('(')) {
+            const expression = this.parseOr();
+            this.expectSymbol(')');
+            return expression;
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): WiqlExpression {
+        const field = this.parseField();
+        const negated = this.acceptWord('NOT');
+        const token = this.next();
+        let operator: WiqlOperator;
+        let value: WiqlValue | WiqlValue[];
+        if (token?.type === 'word' && ['in', 'under', 'contains'].includes(token.value.toLowerCase())) {
+            operator = token.value.toLowerCase() as WiqlOperator;
+            if (operator === 'in') {
+                this.expectSymbol('(');
+                value = [this.parseValue()];
+                while (this.acceptSymbol(',')) value.push(this.parseValue());
+                this.expectSymbol(')');
+            } else {
+                value = this.parseValue();
+            }
+        } else if (!negated && token?.type === 'symbol' && ['=', '<>', '<', '>', '<=', '>='].includes(token.value)) {
+            operator = token.value as WiqlOperator;
+            value = this.parseValue();
+        } else {
+            throw new WiqlSyntaxError(`expected an operator after [${field}]`);
+        }
+        const comparison: WiqlExpression = { kind: 'compare', field, operator, value };
+        return negated ? { kind: 'not', operand: comparison } : comparison;
+    }
+
+    private parseValue(): WiqlValue {
+        const token = this.next();
+        if (token?.type === 'string') return token.value;
+        if (token?.type === 'number') return Number(token.value);
+        if (token?.type === 'macro') {
+            // @today - 7
+            const offset = this.tokens[this.position];
+            if (token.value === 'today' && offset?.type === 'number' && offset.value.startsWith('-')) {
+                this.position++;
+                return { macro: `today${offset.value}` };
+            }
+            if (token.value === 'today' && this.acceptSymbol('-')) {
+                const days = this.next();
+                if (days?.type !== 'number') throw new WiqlSyntaxError('expected a number of days after @today -');
+                return { macro: `today-${days.value}` };
+            }
+            return { macro: token.value };
+        }
+        throw new WiqlSyntaxError(`expected a value, found "${token?.value ?? 'end of query'}"`);
+    }
+
+    private parseField(): string {
+        const token = this.next();
+        if (token?.type === 'field' || token?.type === 'word' && !/^(from|where)$/i.test(token.value)) return token.value;
+        throw new WiqlSyntaxError(`expected a field, found "${token?.value ?? 'end of query'}"`);
+    }
+
+    private next(): Token | undefined {
+        return this.tokens[this.position++];
+    }
+
+    private acceptWord(word: string): boolean {
+        const token = this.tokens[this.position];
+        if (token?.type === 'word' && token.value.toUpperCase() === word) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectWord(word: string): void {
+        if (!this.acceptWord(word)) throw new WiqlSyntaxError(`expected ${word}`);
+    }
+
+    private acceptSymbol(symbol: string): boolean {
+        const token = this.tokens[this.position];
+        if (token?.type === 'symbol' && token.value === symbol) {
+            this.position++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectSymbol(symbol: string): void {
+        if (!this.acceptSymbol(symbol)) throw new WiqlSyntaxError(`expected "${symbol}"`);
+    }
+}
+
+export function parseWiql(query: string): WiqlQuery {
+    return new Parser(tokenize(query)).parseQuery();
+}
+
+function resolveValue(value: WiqlValue, context: WiqlContext): string | number {
+    if (typeof value !== 'object') return value;
+    const today = context.today || new Date();
+    const daysAgo = /^today-(\d+)$/.exec(value.macro);
+    switch (value.macro) {
+        case 'project': return context.project || '';
+        case 'me': return context.me || '';
+        case 'today': return today.toISOString().slice(0, 10);
+    }
+    if (daysAgo) return new Date(today.getTime() - Number(daysAgo[1]) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    throw new WiqlSyntaxError(`unsupported macro @${value.macro}`);
+}
+
+function getFieldValue(item: WorkItem, field: string): any {
+    return field === 'System.Id' ? item.id : item.fields?.[field];
+}
+
+/** The names an identity can be compared by; other values as they are. */
+function namesOf(value: any): string[] {
+    if (value && typeof value === 'object') {
+        return [value.displayName, value.uniqueName].filter(Boolean).map(String);
+    }
+    return [value === undefined || value === null ? '' : String(value)];
+}
+
+function compare(a: any, b: string | number): number {
+    if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+    return String(a ?? '').toLowerCase().localeCompare(String(b).toLowerCase());
+}
+
+function equals(value: any, expected: string | number): boolean {
+    if (typeof value === 'number' || typeof expected === 'number') return Number(value) === Number(expected);
+    const wanted = String(expected).toLowerCase();
+    return namesOf(value).some(name => name.toLowerCase() === wanted);
+}
+
+export function matchesWiql(item: WorkItem, expression: WiqlExpression, context: WiqlContext = {}): boolean {
+    switch (expression.kind) {
+        case 'and': return matchesWiql(item, expression.left, context) && matchesWiql(item, expression.right, context);
+        case 'or': return matchesWiql(item, expression.left, context) || matchesWiql(item, expression.right, context);
+        case 'not': return !matchesWiql(item, expression.operand, context);
+    }
+
+    const value = getFieldValue(item, expression.field);
+    if (expression.operator === 'in') {
+        return (expression.value as WiqlValue[]).some(v => equals(value, resolveValue(v, context)));
+    }
+    const expected = resolveValue(expression.value as WiqlValue, context);
+    switch (expression.operator) {
+        case '=': return equals(value, expected);
+        case '<>': return !equals(value, expected);
+        case '<': return compare(value, expected) < 0;
+        case '>': return compare(value, expected) > 0;
+        case '<=': return compare(value, expected) <= 0;
+        case '>=': return compare(value, expected) >= 0;
+        case 'under': {
+            const path = String(value ?? '').toLowerCase();
+            const scope = String(expected).toLowerCase();
+            return path === scope || path.startsWith(scope + '\\');
+        }
+        case 'contains': {
+            const search = String(expected).toLowerCase();
+            return namesOf(value).some(name => name.toLowerCase().includes(search));
+        }
+    }
+}
+
+/** Runs a query over in-memory work items, returning the matches in the requested order. */
+export function runWiql(query: string | WiqlQuery, items: WorkItem[], context: WiqlContext = {}): WorkItem[] {
+    const parsed = typeof query === 'string' ? parseWiql(query) : query;
+    const matches = parsed.where ? items.filter(item => matchesWiql(item, parsed.where!, context)) : [...items];
+    const sortValue = (item: WorkItem, field: string) => {
+        const value = getFieldValue(item, field);
+        return typeof value === 'number' ? value : namesOf(value)[0];
+    };
+    if (parsed.orderBy.length > 0) {
+        matches.sort((a, b) => {
+            for (const { field, descending } of parsed.orderBy) {
+                const order = compare(sortValue(a, field), sortValue(b, field));
+                if (order !== 0) return descending ? -order : order;
+            }
+            return 0;
+        });
+    }
+    return matches;
+}
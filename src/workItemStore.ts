@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkItem } from 'azure-devops-node-api/interfaces/WorkItemTrackingInterfaces';
+import { log } from './log';
+
+const STORE_VERSION = 1;
+
+/** What is written to disk for one organization and project. */
+interface StoreSnapshot {
+    version: number;
+    /** Fields the items were fetched with; a different set needs a full sync. */
+    fields: string[];
+    /** Latest `System.ChangedDate` seen, where the next delta sync starts. */
+    watermark?: string;
+    /** Data the tree is built from besides work items, e.g. the backlog levels. */
+    meta: Record<string, any>;
+    items: WorkItem[];
+}
+
+/**
+ * Local copy of every backlog work item in a project, kept on disk so the tree can be
+ * shown straight away on startup and brought up to date with a delta sync.
+ */
+export class WorkItemStore {
+    private items = new Map<number, WorkItem>();
+    /** Child IDs by parent ID, rebuilt lazily after changes. */
+    private childIndex?: Map<number, number[]>;
+    private fields: string[] = [];
+    private meta: Record<string, any> = {};
+    private complete = false;
+    private saveTimeout?: NodeJS.Timeout;
+    watermark?: string;
+
+    constructor(private readonly file: string) { }
+
+    /** Reads the snapshot from disk; false if there is none or it can't be used. */
+    async load(): Promise<boolean> {
+        let snapshot: StoreSnapshot;
+        try {
+            snapshot = JSON.parse(await fs.promises.readFile(this.file, 'utf8'));
+        } catch {
+            return false;
+        }
+        if (snapshot.version !== STORE_VERSION || !Array.isArray(snapshot.items)) return false;
+
+        this.items = new Map(snapshot.items.filter(item => item.id !== undefined).map(item => [item.id!, item]));
+        this.childIndex = undefined;
+        this.fields = snapshot.fields || [];
+        this.meta = snapshot.meta || {};
+        this.watermark = snapshot.watermark;
+        this.complete = true;
+        return true;
+    }
+
+    /** Writes the snapshot to disk, replacing the previous one in a single step. */
+    async save(): Promise<void> {
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = undefined;
+        }
+        const snapshot: StoreSnapshot = {
+            version: STORE_VERSION,
+            fields: this.fields,
+            watermark: this.watermark,
+            meta: this.meta,
+            items: [...this.items.values()]
+        };
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        const tempFile = `${this.file}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tempFile, JSON.stringify(snapshot), 'utf8');
+        await fs.promises.rename(tempFile, this.file);
+    }
+
+    /** Saves a moment later, so a burst of edits is written once. */
+    scheduleSave(): void {
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+        }
+        this.saveTimeout = setTimeout(() => {
+            this.save().catch(error => log.error('Error saving work item cache', error));
+        }, 1000);
+    }
+
+    /** Forgets everything and removes the snapshot from disk. */
+    async delete(): Promise<void> {
+        if (this.saveTimeout) {
+            clearTimeout(this.saveTimeout);
+            this.saveTimeout = undefined;
+        }
+        this.items.clear();
+        this.childIndex = undefined;
+        this.meta = {};
+        this.watermark = undefined;
+        this.complete = false;
+        await fs.promises.rm(this.file, { force: true });
+    }
+
+    /** True once the store holds a full snapshot, loaded from disk or synced. */
+    isComplete(): boolean {
+        return this.complete;
+    }
+
+    /** True if the items were fetched with exactly these fields. */
+    hasFields(fields: string[]): boolean {
+        return this.fields.length === fields.length && fields.every(f => this.fields.includes(f));
+    }
+
+    has(id: number): boolean {
+        return this.items.has(id);
+    }
+
+    get(id: number): WorkItem | undefined {
+        return this.items.get(id);
+    }
+
+    getItems(): WorkItem[] {
+        return [...this.items.values()];
+    }
+
+    /** Stored children of a work item, through their `System.Parent` field. */
+    getChildren(parentId: number): WorkItem[] {
+        if (!this.childIndex) {
+            this.childIndex = new Map();
+            for (const item of this.items.values()) {
+                const parent = item.fields?.['System.Parent'];
+                if (parent !== undefined && parent !== null) {
+                    this.childIndex.set(parent, [...(this.childIndex.get(parent) || []), item.id!]);
+                }
+            }
+        }
+        return (this.childIndex.get(parentId) || []).map(id => this.items.get(id)!);
+    }
+
+    getMeta<T>(key: string): T | undefined {
+        return this.meta[key] as T | undefined;
+    }
+
+    setMeta(key: string, value: any): void {
+        this.meta[key] = value;
+        this.scheduleSave();
+    }
+
+    /** Adds or replaces work items, e.g. after an edit. */
+    upsert(items: WorkItem[]): void {
+        for (const item of items) {
+            if (item.id !== undefined) {
+                this.items.set(item.id, item);
+            }
+        }
+        this.childIndex = undefined;
+        this.scheduleSave();
+    }
+
+    remove(ids: number[]): void {
+        for (const id of ids) {
+            this.items.delete(id);
+        }
+        this.childIndex = undefined;
+        this.scheduleSave();
+    }
+
+    /**
+     * Applies the result of a sync. Items missing from `scopeIds` were deleted or left the
+     * backlog; `changed` holds fresh copies of everything edited since the watermark.
+     * Returns true if anything the tree shows is different.
+     */
+    applySync(scopeIds: number[], changed: WorkItem[], fields: string[]): boolean {
+        const inScope = new Set(scopeIds);
+        let modified = false;
+        for (const id of [...this.items.keys()]) {
+            if (!inScope.has(id)) {
+                this.items.delete(id);
+                modified = true;
+            }
+        }
+        for (const item of changed) {
+            if (item.id === undefined || !inScope.has(item.id)) continue;
+            if (this.items.get(item.id)?.rev !== item.rev) {
+                modified = true;
+            }
+            this.items.set(item.id, item);
+
+            const changedDate = item.fields?.['System.ChangedDate'];
+            if (changedDate) {
+                const iso = new Date(changedDate).toISOString();
+                if (!this.watermark || iso > this.watermark) {
+                    this.watermark = iso;
+                }
+            }
+        }
+        if (!this.hasFields(fields)) {
+            this.fields = [...fields];
+            modified = true;
+        }
+        this.childIndex = undefined;
+        this.complete = true;
+        this.scheduleSave();
+        return modified;
+    }
+}